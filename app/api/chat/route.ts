@@ -1,16 +1,91 @@
 import { NextRequest } from "next/server";
 import { RAGModel } from "@/core";
+import {
+  getConversationStore,
+  recordAssistantTurn,
+} from "@/core/conversations";
+import { jsonResponse } from "@/core/http";
+import { chatRequestSchema } from "@/core/models/chatRequest";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+/**
+ * 流式对话
+ * POST /api/chat，请求体见 chatRequestSchema：
+ * - messages: 对话消息，最后一条为用户消息
+ * - provider / model / temperature / tools: 对话模型与可用工具
+ * - enableRAG / k / collection / filter: 检索配置，filter 限定检索范围，如 { metadata: { source: "guide.md" } }
+ * - conversationId: 保存本轮问答的对话
+ * 请求体不合法时返回 400 和 zod 校验问题列表（issues）
+ */
 export async function POST(req: NextRequest) {
   try {
-    const { messages } = await req.json();
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON body" }, 400);
+    }
 
-    // Ollama 是本地运行的，不需要 API key
-    const model = new RAGModel();
-    const readableStream = await model.createStreamingResponse(messages);
+    const parsed = chatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse(
+        { error: "Invalid request", issues: parsed.error.issues },
+        400
+      );
+    }
+    const {
+      messages,
+      provider,
+      model: modelName,
+      temperature,
+      tools,
+      enableRAG,
+      k,
+      collection,
+      filter,
+      conversationId,
+    } = parsed.data;
+
+    // provider 未指定时使用 CHAT_PROVIDER 环境变量（默认 ollama）
+    const model = new RAGModel({
+      provider,
+      model: modelName,
+      temperature,
+      enabledTools: tools,
+      filter,
+    });
+    // 未指定的检索配置保持默认值（环境变量）
+    model.updateRAGOptions({ enableRAG, k, collectionName: collection });
+
+    // 模型创建成功后再保存本轮的用户消息，创建失败时不会留下没有回答的提问
+    // 对话不存在时不调用模型
+    const store = getConversationStore();
+    if (conversationId) {
+      const conversation = await store.appendMessages(conversationId, [
+        {
+          role: "user",
+          content: messages[messages.length - 1].content,
+          createdAt: new Date().toISOString(),
+        },
+      ]);
+      if (!conversation) {
+        return jsonResponse({ error: `对话不存在: ${conversationId}` }, 404);
+      }
+    }
+
+    // 客户端断开或停止生成时 req.signal 触发，中止检索、工具调用和模型生成
+    let readableStream = await model.createStreamingResponse(messages, {
+      signal: req.signal,
+    });
+
+    // 回答结束后保存助手消息（含思考过程、引用来源和工具调用），中途停止时保存已生成的部分
+    if (conversationId) {
+      readableStream = recordAssistantTurn(readableStream, async (message) => {
+        await store.appendMessages(conversationId, [message]);
+      });
+    }
 
     return new Response(readableStream, {
       headers: {
@@ -21,9 +96,9 @@ export async function POST(req: NextRequest) {
     });
   } catch (error: any) {
     console.error("API error:", error);
-    return new Response(
-      JSON.stringify({ error: error.message || "Internal server error" }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
     );
   }
 }
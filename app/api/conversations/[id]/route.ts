@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { getConversationStore } from "@/core/conversations";
+import { jsonResponse } from "@/core/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * 获取对话及其消息
+ * GET /api/conversations/<id>
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const conversation = await getConversationStore().get(params.id);
+    if (!conversation) {
+      return jsonResponse({ error: `对话不存在: ${params.id}` }, 404);
+    }
+    return jsonResponse(conversation);
+  } catch (error: any) {
+    console.error("Conversations API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
+
+/**
+ * 重命名对话
+ * PATCH /api/conversations/<id>，JSON：{ title: string }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (typeof body?.title !== "string" || !body.title.trim()) {
+      return jsonResponse({ error: "title 不能为空" }, 400);
+    }
+    const conversation = await getConversationStore().rename(
+      params.id,
+      body.title
+    );
+    if (!conversation) {
+      return jsonResponse({ error: `对话不存在: ${params.id}` }, 404);
+    }
+    return jsonResponse(conversation);
+  } catch (error: any) {
+    console.error("Conversations API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
+
+/**
+ * 删除对话
+ * DELETE /api/conversations/<id>
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await getConversationStore().delete(params.id);
+    if (!deleted) {
+      return jsonResponse({ error: `对话不存在: ${params.id}` }, 404);
+    }
+    return jsonResponse({ id: params.id, deleted: true });
+  } catch (error: any) {
+    console.error("Conversations API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
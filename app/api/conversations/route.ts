@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { getConversationStore } from "@/core/conversations";
+import { jsonResponse } from "@/core/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 列出对话（按更新时间倒序，不含消息）
+ * GET /api/conversations
+ */
+export async function GET() {
+  try {
+    const conversations = await getConversationStore().list();
+    return jsonResponse({ conversations });
+  } catch (error: any) {
+    console.error("Conversations API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
+
+/**
+ * 创建对话
+ * POST /api/conversations，JSON：{ title?: string }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.title !== undefined && typeof body.title !== "string") {
+      return jsonResponse({ error: "title 必须是字符串" }, 400);
+    }
+    const conversation = await getConversationStore().create(body?.title);
+    return jsonResponse(conversation, 201);
+  } catch (error: any) {
+    console.error("Conversations API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest } from "next/server";
+import { jsonResponse } from "@/core/http";
+import { EmbeddingModelType } from "@/core/rag/embedding";
+import { invalidateKeywordIndex } from "@/core/rag/hybridSearch";
+import {
+  deleteDocumentsBySource,
+  getDocumentsBySource,
+} from "@/core/rag/vectorStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { source: string[] };
+}
+
+/**
+ * 来源名称可能包含 "/"（如 static/documents/index.json），由多个路径段拼接
+ */
+function getSource({ params }: RouteContext): string {
+  return params.source
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment; // 已解码过的路径段
+      }
+    })
+    .join("/");
+}
+
+function getCollectionName(req: NextRequest): string {
+  return (
+    req.nextUrl.searchParams.get("collection") ||
+    process.env.CHROMA_COLLECTION ||
+    "rag-documents"
+  );
+}
+
+/**
+ * 获取某个来源的所有文本块（按入库顺序）
+ * GET /api/documents/<来源>?collection=<集合名称>
+ */
+export async function GET(req: NextRequest, context: RouteContext) {
+  try {
+    const source = getSource(context);
+    const { ids, documents, metadatas } = await getDocumentsBySource(
+      source,
+      getCollectionName(req)
+    );
+    if (ids.length === 0) {
+      return jsonResponse({ error: `来源不存在: ${source}` }, 404);
+    }
+
+    const chunks = ids
+      .map((id, index) => ({
+        id,
+        content: documents[index] || "",
+        metadata: metadatas[index] || {},
+      }))
+      .sort((a, b) => (a.metadata.index ?? 0) - (b.metadata.index ?? 0));
+
+    return jsonResponse({ source, chunks });
+  } catch (error: any) {
+    console.error("Documents API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
+
+/**
+ * 删除某个来源的所有文本块
+ * DELETE /api/documents/<来源>?collection=<集合名称>
+ */
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  try {
+    const source = getSource(context);
+    const collectionName = getCollectionName(req);
+    const deleted = await deleteDocumentsBySource(
+      source,
+      collectionName,
+      (process.env.EMBEDDING_TYPE as EmbeddingModelType) || "ollama"
+    );
+    if (deleted === 0) {
+      return jsonResponse({ error: `来源不存在: ${source}` }, 404);
+    }
+
+    invalidateKeywordIndex(collectionName);
+    return jsonResponse({ source, deleted });
+  } catch (error: any) {
+    console.error("Documents API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
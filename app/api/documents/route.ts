@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { jsonResponse } from "@/core/http";
+import { detectFormat } from "@/core/rag/fileLoader";
+import { ingestBuffer } from "@/core/rag/ingest";
+import { EmbeddingMismatchError, listSources } from "@/core/rag/vectorStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 列出已入库的来源及文本块数量
+ * GET /api/documents?collection=<集合名称>
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const collectionName =
+      req.nextUrl.searchParams.get("collection") ||
+      process.env.CHROMA_COLLECTION ||
+      "rag-documents";
+    const { sources, untracked } = await listSources(collectionName);
+
+    return jsonResponse({ collection: collectionName, sources, untracked });
+  } catch (error: any) {
+    console.error("Documents API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
+
+/**
+ * 上传文件并入库（分割、向量化、写入向量库）
+ * POST /api/documents，multipart/form-data：
+ * - file: 文件（.md .txt .html .json .jsonl .pdf）
+ * - collection / chunkSize / chunkOverlap / source: 可选
+ * 同名来源重复上传时增量更新
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get("file");
+    if (!file || typeof file === "string") {
+      return jsonResponse({ error: "缺少上传文件（字段名 file）" }, 400);
+    }
+    if (!detectFormat(file.name)) {
+      return jsonResponse({ error: `不支持的文件格式: ${file.name}` }, 400);
+    }
+
+    const chunkSize = parseInt(String(formData.get("chunkSize") || ""));
+    const chunkOverlap = parseInt(String(formData.get("chunkOverlap") || ""));
+    const result = await ingestBuffer(
+      Buffer.from(await file.arrayBuffer()),
+      file.name,
+      {
+        collectionName: (formData.get("collection") as string) || undefined,
+        source: (formData.get("source") as string) || undefined,
+        chunkSize: Number.isNaN(chunkSize) ? undefined : chunkSize,
+        chunkOverlap: Number.isNaN(chunkOverlap) ? undefined : chunkOverlap,
+      }
+    );
+
+    return jsonResponse(
+      {
+        source: result.sources[0],
+        chunks: result.chunks.length,
+        stats: result.stats,
+      },
+      201
+    );
+  } catch (error: any) {
+    // 当前嵌入模型与集合不一致，需要迁移集合或切换嵌入模型
+    if (error instanceof EmbeddingMismatchError) {
+      return jsonResponse(
+        {
+          error: error.message,
+          expected: error.expected,
+          actual: error.actual,
+        },
+        409
+      );
+    }
+    console.error("Documents API error:", error);
+    return jsonResponse(
+      { error: error.message || "Internal server error" },
+      500
+    );
+  }
+}
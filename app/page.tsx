@@ -2,17 +2,92 @@
 
 import { useState, useRef, useEffect } from "react";
 
+interface ToolStep {
+  id: string;
+  name: string;
+  args?: Record<string, any>;
+  status: "running" | "success" | "error";
+  result?: string;
+  error?: string;
+  duration?: number;
+}
+
+interface Source {
+  index: number;
+  id: string;
+  content: string;
+  snippet: string;
+  metadata: Record<string, any>;
+  distance?: number;
+  score?: number;
+}
+
+// 已入库的来源（GET /api/documents）
+interface IndexedSource {
+  source: string;
+  chunks: number;
+  title?: string;
+}
+
 interface Message {
   role: "user" | "assistant";
   content: string;
   thinking?: string;
+  toolSteps?: ToolStep[];
+  sources?: Source[];
+  aborted?: boolean; // 用户停止生成，content 为已生成的部分
+  error?: string; // 生成中断的原因，content 为已生成的部分
+}
+
+// 对话列表项（GET /api/conversations）
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// 刷新页面后恢复上次打开的对话
+const ACTIVE_CONVERSATION_KEY = "activeConversationId";
+
+const CITATION_PATTERN = /\[文档\s*(\d+)\]/g;
+
+/**
+ * 读取 /api/chat 失败响应中的错误信息
+ * 400 时列出每个校验问题（issues），其余状态返回 error 字段
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (Array.isArray(body.issues) && body.issues.length > 0) {
+      const issues = body.issues.map((issue: any) =>
+        issue.path?.length
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message
+      );
+      return `${body.error || "请求不合法"}\n${issues.join("\n")}`;
+    }
+    if (body.error) {
+      return body.error;
+    }
+  } catch {
+    // 响应体不是 JSON，使用状态码
+  }
+  return `请求失败 (HTTP ${response.status})`;
 }
 
 export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [activeSource, setActiveSource] = useState<Source | null>(null);
+  const [indexedSources, setIndexedSources] = useState<IndexedSource[]>([]);
+  const [searchScope, setSearchScope] = useState(""); // 空字符串表示检索全部文档
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // 当前请求的取消控制器，停止生成时中止 fetch，服务端随之停止检索和生成
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -22,6 +97,147 @@ export default function Home() {
     scrollToBottom();
   }, [messages]);
 
+  // 加载可选的检索范围，加载失败时只提供「全部文档」
+  useEffect(() => {
+    fetch("/api/documents")
+      .then((response) => (response.ok ? response.json() : { sources: [] }))
+      .then((data) => setIndexedSources(data.sources || []))
+      .catch(() => setIndexedSources([]));
+  }, []);
+
+  const loadConversations = async () => {
+    try {
+      const response = await fetch("/api/conversations");
+      if (response.ok) {
+        const data = await response.json();
+        setConversations(data.conversations || []);
+      }
+    } catch (error) {
+      console.error("Failed to load conversations:", error);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (isLoading) return;
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      if (!response.ok) {
+        throw new Error("Failed to load conversation");
+      }
+      const conversation = await response.json();
+      setMessages(
+        conversation.messages.map((message: any) => ({
+          role: message.role,
+          content: message.content,
+          thinking: message.thinking,
+          toolSteps: message.toolSteps,
+          sources: message.sources,
+          aborted: message.aborted,
+          error: message.error,
+        }))
+      );
+      setConversationId(id);
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    } catch (error) {
+      console.error("Error:", error);
+      if (localStorage.getItem(ACTIVE_CONVERSATION_KEY) === id) {
+        localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+      }
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) return;
+    setMessages([]);
+    setConversationId(null);
+    localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  };
+
+  const renameConversation = async (conversation: ConversationSummary) => {
+    const title = window.prompt("重命名对话", conversation.title);
+    if (!title?.trim() || title === conversation.title) return;
+    await fetch(`/api/conversations/${conversation.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    loadConversations();
+  };
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`删除对话「${conversation.title}」？`)) return;
+    await fetch(`/api/conversations/${conversation.id}`, {
+      method: "DELETE",
+    });
+    if (conversation.id === conversationId) {
+      startNewConversation();
+    }
+    loadConversations();
+  };
+
+  useEffect(() => {
+    loadConversations();
+    const savedId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (savedId) {
+      openConversation(savedId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateAssistantMessage = (updater: (message: Message) => Message) => {
+    setMessages((prev) => {
+      const lastMessage = prev[prev.length - 1];
+      if (lastMessage && lastMessage.role === "assistant") {
+        return [...prev.slice(0, -1), updater(lastMessage)];
+      }
+      return prev;
+    });
+  };
+
+  const updateToolSteps = (updater: (steps: ToolStep[]) => ToolStep[]) => {
+    updateAssistantMessage((message) => ({
+      ...message,
+      toolSteps: updater(message.toolSteps || []),
+    }));
+  };
+
+  // 将回答中的 [文档 N] 标记渲染为可点击的引用
+  const renderContent = (message: Message) => {
+    const sources = message.sources || [];
+    if (message.role !== "assistant" || sources.length === 0) {
+      return message.content;
+    }
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of Array.from(
+      message.content.matchAll(CITATION_PATTERN)
+    )) {
+      const source = sources.find((item) => item.index === Number(match[1]));
+      if (!source || match.index === undefined) continue;
+
+      parts.push(message.content.slice(lastIndex, match.index));
+      parts.push(
+        <button
+          key={`${match.index}-${source.index}`}
+          type="button"
+          onClick={() => setActiveSource(source)}
+          title={source.snippet}
+          className="mx-0.5 px-1 rounded text-xs align-super text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gray-700 hover:underline"
+        >
+          {source.index}
+        </button>
+      );
+      lastIndex = match.index + match[0].length;
+    }
+    parts.push(message.content.slice(lastIndex));
+    return parts;
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -34,8 +250,21 @@ export default function Home() {
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
+      // 第一条消息发送前创建对话，之后的每一轮都保存到该对话
+      let activeId = conversationId;
+      if (!activeId) {
+        const created = await fetch("/api/conversations", { method: "POST" });
+        if (created.ok) {
+          activeId = (await created.json()).id as string;
+          setConversationId(activeId);
+          localStorage.setItem(ACTIVE_CONVERSATION_KEY, activeId);
+        }
+      }
+
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: {
@@ -46,11 +275,16 @@ export default function Home() {
             role: msg.role,
             content: msg.content,
           })),
+          filter: searchScope
+            ? { metadata: { source: searchScope } }
+            : undefined,
+          conversationId: activeId || undefined,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
-        throw new Error("Failed to fetch response");
+        throw new Error(await readErrorMessage(response));
       }
 
       const reader = response.body?.getReader();
@@ -81,48 +315,92 @@ export default function Home() {
               return;
             }
 
+            let parsed: any;
             try {
-              const parsed = JSON.parse(data);
-              if (parsed.type === "content") {
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage && lastMessage.role === "assistant") {
-                    return [
-                      ...newMessages.slice(0, -1),
-                      {
-                        ...lastMessage,
-                        content: lastMessage.content + parsed.content,
-                      },
-                    ];
-                  }
-                  return newMessages;
-                });
-              } else if (parsed.type === "thinking") {
-                setMessages((prev) => {
-                  const newMessages = [...prev];
-                  const lastMessage = newMessages[newMessages.length - 1];
-                  if (lastMessage && lastMessage.role === "assistant") {
-                    return [
-                      ...newMessages.slice(0, -1),
-                      {
-                        ...lastMessage,
-                        thinking: (lastMessage.thinking || "") + parsed.content,
-                      },
-                    ];
-                  }
-                  return newMessages;
-                });
-              } else if (parsed.type === "error") {
-                throw new Error(parsed.error);
-              }
-            } catch (e) {
-              // Skip invalid JSON
+              parsed = JSON.parse(data);
+            } catch {
+              continue; // Skip invalid JSON
+            }
+
+            if (parsed.type === "content") {
+              setMessages((prev) => {
+                const newMessages = [...prev];
+                const lastMessage = newMessages[newMessages.length - 1];
+                if (lastMessage && lastMessage.role === "assistant") {
+                  return [
+                    ...newMessages.slice(0, -1),
+                    {
+                      ...lastMessage,
+                      content: lastMessage.content + parsed.content,
+                    },
+                  ];
+                }
+                return newMessages;
+              });
+            } else if (parsed.type === "thinking") {
+              setMessages((prev) => {
+                const newMessages = [...prev];
+                const lastMessage = newMessages[newMessages.length - 1];
+                if (lastMessage && lastMessage.role === "assistant") {
+                  return [
+                    ...newMessages.slice(0, -1),
+                    {
+                      ...lastMessage,
+                      thinking: (lastMessage.thinking || "") + parsed.content,
+                    },
+                  ];
+                }
+                return newMessages;
+              });
+            } else if (parsed.type === "tool_call") {
+              updateToolSteps((steps) => [
+                ...steps,
+                {
+                  id: parsed.toolCallId,
+                  name: parsed.name,
+                  args: parsed.args,
+                  status: "running",
+                },
+              ]);
+            } else if (parsed.type === "tool_result") {
+              updateToolSteps((steps) =>
+                steps.map((step) =>
+                  step.id === parsed.toolCallId && step.status === "running"
+                    ? {
+                        ...step,
+                        status: parsed.error ? "error" : "success",
+                        result: parsed.result,
+                        error: parsed.error,
+                        duration: parsed.duration,
+                      }
+                    : step
+                )
+              );
+            } else if (parsed.type === "sources") {
+              // 同一轮中多次检索的编号连续不重复，依次追加
+              updateAssistantMessage((message) => ({
+                ...message,
+                sources: [
+                  ...(message.sources || []),
+                  ...((parsed.sources || []) as Source[]),
+                ],
+              }));
+            } else if (parsed.type === "error") {
+              // 服务端在生成过程中出错：保留已生成的部分，在回答下方显示错误
+              updateAssistantMessage((message) => ({
+                ...message,
+                error: parsed.error || "未知错误",
+              }));
             }
           }
         }
       }
     } catch (error) {
+      // 停止生成：保留已生成的部分回答
+      if (abortController.signal.aborted) {
+        updateAssistantMessage((message) => ({ ...message, aborted: true }));
+        return;
+      }
       console.error("Error:", error);
       setMessages((prev) => [
         ...prev,
@@ -134,109 +412,300 @@ export default function Home() {
         },
       ]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      loadConversations();
     }
   };
 
   return (
-    <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900">
-      {/* Header */}
-      <header className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800 px-4 py-3">
-        <div className="max-w-4xl mx-auto">
-          <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
-            DeepSeek Agent
-          </h1>
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Conversation sidebar */}
+      <aside className="hidden md:flex w-64 flex-col border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800">
+        <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={startNewConversation}
+            disabled={isLoading}
+            className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            新对话
+          </button>
         </div>
-      </header>
-
-      {/* Messages */}
-      <main className="flex-1 overflow-y-auto px-4 py-6">
-        <div className="max-w-4xl mx-auto space-y-6">
-          {messages.length === 0 && (
-            <div className="text-center text-gray-500 dark:text-gray-400 mt-20">
-              <p className="text-lg">开始对话</p>
-              <p className="text-sm mt-2">输入消息与 DeepSeek AI 助手交流</p>
-            </div>
+        <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+          {conversations.length === 0 && (
+            <p className="px-2 py-4 text-xs text-center text-gray-400">
+              暂无历史对话
+            </p>
           )}
-
-          {messages.map((message, index) => (
+          {conversations.map((conversation) => (
             <div
-              key={index}
-              className={`flex ${
-                message.role === "user" ? "justify-end" : "justify-start"
+              key={conversation.id}
+              className={`group flex items-center rounded-lg text-sm ${
+                conversation.id === conversationId
+                  ? "bg-blue-50 dark:bg-gray-700 text-blue-700 dark:text-white"
+                  : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
               }`}
             >
+              <button
+                type="button"
+                onClick={() => openConversation(conversation.id)}
+                title={conversation.title}
+                className="flex-1 min-w-0 px-2 py-2 text-left truncate"
+              >
+                {conversation.title}
+              </button>
+              <div className="hidden group-hover:flex items-center pr-1 space-x-1 text-xs text-gray-400">
+                <button
+                  type="button"
+                  onClick={() => renameConversation(conversation)}
+                  className="hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  重命名
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteConversation(conversation)}
+                  className="hover:text-red-500"
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </nav>
+      </aside>
+
+      <div className="flex flex-1 min-w-0 flex-col">
+        {/* Header */}
+        <header className="border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800 px-4 py-3">
+          <div className="max-w-4xl mx-auto">
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              DeepSeek Agent
+            </h1>
+          </div>
+        </header>
+
+        {/* Messages */}
+        <main className="flex-1 overflow-y-auto px-4 py-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {messages.length === 0 && (
+              <div className="text-center text-gray-500 dark:text-gray-400 mt-20">
+                <p className="text-lg">开始对话</p>
+                <p className="text-sm mt-2">输入消息与 DeepSeek AI 助手交流</p>
+              </div>
+            )}
+
+            {messages.map((message, index) => (
               <div
-                className={`max-w-[80%] rounded-lg px-4 py-3 ${
-                  message.role === "user"
-                    ? "bg-blue-600 text-white"
-                    : "bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700"
+                key={index}
+                className={`flex ${
+                  message.role === "user" ? "justify-end" : "justify-start"
                 }`}
               >
-                {message.thinking && (
-                  <div className="mb-3 pb-3 border-b border-gray-200 dark:border-gray-700">
-                    <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2">
-                      思考过程
+                <div
+                  className={`max-w-[80%] rounded-lg px-4 py-3 ${
+                    message.role === "user"
+                      ? "bg-blue-600 text-white"
+                      : "bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700"
+                  }`}
+                >
+                  {message.thinking && (
+                    <div className="mb-3 pb-3 border-b border-gray-200 dark:border-gray-700">
+                      <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                        思考过程
+                      </div>
+                      <div className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap font-mono">
+                        {message.thinking}
+                      </div>
                     </div>
-                    <div className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap font-mono">
-                      {message.thinking}
+                  )}
+                  {message.toolSteps && message.toolSteps.length > 0 && (
+                    <div className="mb-3 pb-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+                      <div className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+                        工具调用
+                      </div>
+                      {message.toolSteps.map((step, stepIndex) => (
+                        <details
+                          key={`${step.id}-${stepIndex}`}
+                          className="text-sm rounded border border-gray-200 dark:border-gray-700"
+                        >
+                          <summary className="cursor-pointer px-2 py-1 text-gray-600 dark:text-gray-300 font-mono">
+                            {step.status === "running"
+                              ? "⏳"
+                              : step.status === "error"
+                              ? "❌"
+                              : "✅"}{" "}
+                            {step.name}
+                            {step.duration !== undefined && (
+                              <span className="ml-2 text-xs text-gray-400">
+                                {step.duration}ms
+                              </span>
+                            )}
+                          </summary>
+                          <div className="px-2 py-1 space-y-1 text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap font-mono">
+                            <div>参数: {JSON.stringify(step.args || {})}</div>
+                            {step.result !== undefined && (
+                              <div>结果: {step.result}</div>
+                            )}
+                            {step.error && (
+                              <div className="text-red-500">
+                                错误: {step.error}
+                              </div>
+                            )}
+                          </div>
+                        </details>
+                      ))}
                     </div>
+                  )}
+                  <div className="whitespace-pre-wrap break-words">
+                    {renderContent(message)}
                   </div>
-                )}
-                <div className="whitespace-pre-wrap break-words">
-                  {message.content}
+                  {message.aborted && (
+                    <div className="mt-2 text-xs text-gray-400">已停止生成</div>
+                  )}
+                  {message.error && (
+                    <div className="mt-2 text-sm text-red-500">
+                      错误: {message.error}
+                    </div>
+                  )}
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                      <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2">
+                        参考来源
+                      </div>
+                      <ul className="space-y-1">
+                        {message.sources.map((source) => (
+                          <li key={`${source.id}-${source.index}`}>
+                            <button
+                              type="button"
+                              onClick={() => setActiveSource(source)}
+                              className="text-left text-xs text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+                            >
+                              [文档 {source.index}] {source.snippet}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
 
-          {isLoading && (
-            <div className="flex justify-start">
-              <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-4 py-3">
-                <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                    <div
-                      className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                      style={{ animationDelay: "0.1s" }}
-                    ></div>
-                    <div
-                      className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                      style={{ animationDelay: "0.2s" }}
-                    ></div>
+            {isLoading && (
+              <div className="flex justify-start">
+                <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-4 py-3">
+                  <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+                    <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                      <div
+                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                        style={{ animationDelay: "0.1s" }}
+                      ></div>
+                      <div
+                        className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                        style={{ animationDelay: "0.2s" }}
+                      ></div>
+                    </div>
+                    <span className="text-sm">思考中...</span>
                   </div>
-                  <span className="text-sm">思考中...</span>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
-        </div>
-      </main>
-
-      {/* Input */}
-      <footer className="border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800 px-4 py-4">
-        <div className="max-w-4xl mx-auto">
-          <form onSubmit={handleSubmit} className="flex space-x-4">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="输入消息..."
-              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-              disabled={isLoading}
-            />
-            <button
-              type="submit"
-              disabled={isLoading || !input.trim()}
-              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            <div ref={messagesEndRef} />
+          </div>
+        </main>
+
+        {/* Source viewer */}
+        {activeSource && (
+          <div
+            className="fixed inset-0 z-10 flex items-center justify-center bg-black/40 px-4"
+            onClick={() => setActiveSource(null)}
+          >
+            <div
+              className="max-w-2xl w-full max-h-[80vh] overflow-y-auto rounded-lg bg-white dark:bg-gray-800 p-4 shadow-lg"
+              onClick={(e) => e.stopPropagation()}
             >
-              发送
-            </button>
-          </form>
-        </div>
-      </footer>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+                  [文档 {activeSource.index}]
+                  {activeSource.metadata.title
+                    ? ` ${activeSource.metadata.title}`
+                    : ""}
+                </h2>
+                <button
+                  type="button"
+                  onClick={() => setActiveSource(null)}
+                  className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                >
+                  关闭
+                </button>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 font-mono">
+                ID: {activeSource.id}
+                {activeSource.distance !== undefined &&
+                  ` · 距离: ${activeSource.distance.toFixed(4)}`}
+                {activeSource.score !== undefined &&
+                  ` · 相关度: ${activeSource.score.toFixed(4)}`}
+              </div>
+              <div className="text-sm text-gray-700 dark:text-gray-200 whitespace-pre-wrap break-words">
+                {activeSource.content}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Input */}
+        <footer className="border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800 px-4 py-4">
+          <div className="max-w-4xl mx-auto">
+            <form onSubmit={handleSubmit} className="flex space-x-4">
+              {indexedSources.length > 0 && (
+                <select
+                  value={searchScope}
+                  onChange={(e) => setSearchScope(e.target.value)}
+                  title="检索范围"
+                  className="max-w-[12rem] px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  disabled={isLoading}
+                >
+                  <option value="">全部文档</option>
+                  {indexedSources.map((item) => (
+                    <option key={item.source} value={item.source}>
+                      仅检索: {item.title || item.source}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="输入消息..."
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                disabled={isLoading}
+              />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGeneration}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  停止
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  发送
+                </button>
+              )}
+            </form>
+          </div>
+        </footer>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,111 @@
+import { NextRequest } from "next/server";
+import { RAGModel } from "@/core";
+import { jsonResponse } from "@/core/http";
+import {
+  createCompletionInfo,
+  isAuthorized,
+  openAIChatRequestSchema,
+  openAIError,
+  resolveModelId,
+  toChatMessages,
+  toOpenAICompletion,
+  toOpenAIStream,
+  validateChatMessages,
+} from "@/core/models/openaiCompat";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * OpenAI 兼容的对话接口，供 IDE 插件、脚本、评测工具等直接调用
+ * POST /v1/chat/completions，支持 stream: true（SSE）和非流式响应
+ * 与 /api/chat 使用同一套 RAGModel（检索和工具调用），工具调用和引用来源放在 x_agent 扩展字段中
+ * model 为 provider 名称（使用其默认模型）或 "<provider>/<模型名>"，可用值见 GET /v1/models
+ */
+export async function POST(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return jsonResponse(
+      openAIError(
+        "Invalid API key",
+        "invalid_request_error",
+        "invalid_api_key"
+      ),
+      401
+    );
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse(openAIError("Invalid JSON body"), 400);
+    }
+
+    const parsed = openAIChatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return jsonResponse(
+        openAIError(
+          issue.message,
+          "invalid_request_error",
+          null,
+          issue.path.join(".") || null
+        ),
+        400
+      );
+    }
+
+    const resolved = resolveModelId(parsed.data.model);
+    if (!resolved) {
+      return jsonResponse(
+        openAIError(
+          `The model "${parsed.data.model}" does not exist`,
+          "invalid_request_error",
+          "model_not_found",
+          "model"
+        ),
+        404
+      );
+    }
+
+    const { messages, instructions } = toChatMessages(parsed.data.messages);
+    const invalidMessages = validateChatMessages(messages);
+    if (invalidMessages) {
+      return jsonResponse(
+        openAIError(invalidMessages, "invalid_request_error", null, "messages"),
+        400
+      );
+    }
+
+    const model = new RAGModel({
+      provider: resolved.provider,
+      model: resolved.model,
+      temperature: parsed.data.temperature,
+      instructions,
+    });
+    // 客户端断开时中止检索、工具调用和模型生成
+    const stream = await model.createStreamingResponse(messages, {
+      signal: req.signal,
+    });
+    const info = createCompletionInfo(parsed.data.model);
+
+    if (parsed.data.stream) {
+      return new Response(toOpenAIStream(stream, info), {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      });
+    }
+
+    return jsonResponse(await toOpenAICompletion(stream, info, messages));
+  } catch (error: any) {
+    console.error("Chat completions API error:", error);
+    return jsonResponse(
+      openAIError(error.message || "Internal server error", "server_error"),
+      500
+    );
+  }
+}
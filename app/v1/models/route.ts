@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { jsonResponse } from "@/core/http";
+import {
+  isAuthorized,
+  listModelIds,
+  openAIError,
+} from "@/core/models/openaiCompat";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 列出可用模型（OpenAI 兼容），每个已注册的 provider 一项，默认 provider 排在最前
+ * GET /v1/models
+ */
+export async function GET(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return jsonResponse(
+      openAIError(
+        "Invalid API key",
+        "invalid_request_error",
+        "invalid_api_key"
+      ),
+      401
+    );
+  }
+
+  return jsonResponse({
+    object: "list",
+    data: listModelIds().map((id) => ({
+      id,
+      object: "model",
+      created: 0,
+      owned_by: "deepseek-agent",
+    })),
+  });
+}
@@ -0,0 +1,115 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ConversationStore,
+  DEFAULT_CONVERSATION_TITLE,
+} from "./conversationStore";
+import { ConversationMessage } from "./types";
+
+function userMessage(content: string): ConversationMessage {
+  return { role: "user", content, createdAt: new Date().toISOString() };
+}
+
+describe("ConversationStore", () => {
+  let directory: string;
+  let store: ConversationStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "conversations-"));
+    store = new ConversationStore(directory);
+    // 只模拟 Date，由测试控制创建和更新时间，文件读写不受影响
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("追加消息后保存到文件，首条用户消息作为标题", async () => {
+    const conversation = await store.create();
+    expect(conversation.title).toBe(DEFAULT_CONVERSATION_TITLE);
+
+    await store.appendMessages(conversation.id, [
+      userMessage("  如何   添加一个新的工具？"),
+      { role: "assistant", content: "实现 tool 并注册", createdAt: "" },
+    ]);
+    await store.appendMessages(conversation.id, [userMessage("第二个问题")]);
+
+    const saved = await new ConversationStore(directory).get(conversation.id);
+    expect(saved?.title).toBe("如何 添加一个新的工具？");
+    expect(saved?.messages.map((message) => message.content)).toEqual([
+      "  如何   添加一个新的工具？",
+      "实现 tool 并注册",
+      "第二个问题",
+    ]);
+  });
+
+  it("过长的标题截断，已命名的对话不覆盖标题", async () => {
+    const long = await store.create();
+    await store.appendMessages(long.id, [userMessage("问".repeat(40))]);
+    expect((await store.get(long.id))?.title).toBe(`${"问".repeat(30)}…`);
+
+    const named = await store.create("部署");
+    await store.appendMessages(named.id, [userMessage("如何部署？")]);
+    expect((await store.get(named.id))?.title).toBe("部署");
+  });
+
+  it("列表按更新时间倒序，不包含消息", async () => {
+    const first = await store.create("第一个");
+    vi.setSystemTime(new Date("2024-01-02T00:00:00Z"));
+    const second = await store.create("第二个");
+    vi.setSystemTime(new Date("2024-01-03T00:00:00Z"));
+    await store.rename(first.id, "  重命名  ");
+
+    expect(await store.list()).toEqual([
+      {
+        id: first.id,
+        title: "重命名",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-03T00:00:00.000Z",
+        messageCount: 0,
+      },
+      {
+        id: second.id,
+        title: "第二个",
+        createdAt: "2024-01-02T00:00:00.000Z",
+        updatedAt: "2024-01-02T00:00:00.000Z",
+        messageCount: 0,
+      },
+    ]);
+  });
+
+  it("并发追加的消息都会保存", async () => {
+    const { id } = await store.create();
+    await Promise.all(
+      ["a", "b", "c"].map((content) =>
+        store.appendMessages(id, [userMessage(content)])
+      )
+    );
+    expect((await store.get(id))?.messages).toHaveLength(3);
+    // 写入完成后不留下临时文件
+    expect(await readdir(directory)).toEqual([`${id}.json`]);
+  });
+
+  it("删除对话，不存在或 ID 无效时返回 null / false", async () => {
+    const { id } = await store.create();
+    expect(await store.delete(id)).toBe(true);
+    expect(await store.delete(id)).toBe(false);
+    expect(await store.get(id)).toBeNull();
+    expect(await store.rename(id, "x")).toBeNull();
+
+    expect(await store.get("../secret")).toBeNull();
+    expect(await store.appendMessages("../secret", [])).toBeNull();
+    expect(await store.delete("../secret")).toBe(false);
+  });
+
+  it("目录不存在时列表为空", async () => {
+    expect(
+      await new ConversationStore(join(directory, "missing")).list()
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+// 此文件只能在服务器端使用
+if (typeof window !== "undefined") {
+  throw new Error("conversationStore.ts can only be used on the server side");
+}
+
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+} from "./types";
+
+// 未命名对话的标题，首条用户消息写入后替换为消息开头
+export const DEFAULT_CONVERSATION_TITLE = "新对话";
+const TITLE_LENGTH = 30;
+
+// 对话 ID 为 UUID，校验后再拼接文件路径，避免路径穿越
+const ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * 由首条用户消息生成对话标题
+ */
+function createTitle(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH)}…` : text;
+}
+
+/**
+ * 基于本地文件的对话存储
+ * 每个对话保存为一个 JSON 文件，默认目录为 CONVERSATION_STORE_PATH 或 .data/conversations
+ */
+export class ConversationStore {
+  private directory: string;
+  private writeQueues = new Map<string, Promise<unknown>>(); // 按对话串行写入
+
+  constructor(directory?: string) {
+    this.directory = resolve(
+      directory || process.env.CONVERSATION_STORE_PATH || ".data/conversations"
+    );
+  }
+
+  private getFilePath(id: string): string | null {
+    return ID_PATTERN.test(id) ? join(this.directory, `${id}.json`) : null;
+  }
+
+  /**
+   * 读取对话，不存在或 ID 无效时返回 null
+   */
+  private async read(id: string): Promise<Conversation | null> {
+    const filePath = this.getFilePath(id);
+    if (!filePath) {
+      return null;
+    }
+    try {
+      return JSON.parse(await readFile(filePath, "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  /**
+   * 写入对话（先写临时文件再重命名，避免写入中断导致文件损坏）
+   */
+  private async write(conversation: Conversation): Promise<void> {
+    const filePath = this.getFilePath(conversation.id)!;
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(conversation, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  /**
+   * 在对话的写入队列中执行任务，队列清空后移除该对话的条目
+   */
+  private enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueues.get(id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeQueues.set(id, next);
+    const cleanup = () => {
+      // 期间有新任务排队时保留条目，由最后一个任务移除
+      if (this.writeQueues.get(id) === next) {
+        this.writeQueues.delete(id);
+      }
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  /**
+   * 修改对话并写回文件，对话不存在时返回 null
+   */
+  private update(
+    id: string,
+    mutate: (conversation: Conversation) => void
+  ): Promise<Conversation | null> {
+    return this.enqueue(id, async () => {
+      const conversation = await this.read(id);
+      if (!conversation) {
+        return null;
+      }
+      mutate(conversation);
+      conversation.updatedAt = new Date().toISOString();
+      await this.write(conversation);
+      return conversation;
+    });
+  }
+
+  /**
+   * 创建对话
+   * @param title 标题，不传时使用首条用户消息生成
+   */
+  async create(title?: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      title: title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    await this.write(conversation);
+    return conversation;
+  }
+
+  /**
+   * 列出对话，按更新时间倒序
+   */
+  async list(): Promise<ConversationSummary[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const summaries: ConversationSummary[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const conversation = await this.read(file.slice(0, -".json".length));
+      if (!conversation) continue;
+      const { messages, ...summary } = conversation;
+      summaries.push({ ...summary, messageCount: messages.length });
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * 读取对话，不存在时返回 null
+   */
+  async get(id: string): Promise<Conversation | null> {
+    return this.read(id);
+  }
+
+  /**
+   * 重命名对话，不存在时返回 null
+   */
+  async rename(id: string, title: string): Promise<Conversation | null> {
+    return this.update(id, (conversation) => {
+      conversation.title = title.trim() || DEFAULT_CONVERSATION_TITLE;
+    });
+  }
+
+  /**
+   * 追加消息；未命名的对话以首条用户消息作为标题
+   * @returns 更新后的对话，不存在时返回 null
+   */
+  async appendMessages(
+    id: string,
+    messages: ConversationMessage[]
+  ): Promise<Conversation | null> {
+    return this.update(id, (conversation) => {
+      conversation.messages.push(...messages);
+      const firstUserMessage = conversation.messages.find(
+        (message) => message.role === "user"
+      );
+      if (
+        conversation.title === DEFAULT_CONVERSATION_TITLE &&
+        firstUserMessage
+      ) {
+        conversation.title = createTitle(firstUserMessage.content);
+      }
+    });
+  }
+
+  /**
+   * 删除对话
+   * @returns 是否删除了对话
+   */
+  async delete(id: string): Promise<boolean> {
+    const filePath = this.getFilePath(id);
+    if (!filePath) {
+      return false;
+    }
+    return this.enqueue(id, async () => {
+      try {
+        await unlink(filePath);
+        return true;
+      } catch (error: any) {
+        if (error.code === "ENOENT") return false;
+        throw error;
+      }
+    });
+  }
+}
+
+let sharedStore: ConversationStore | null = null;
+
+/**
+ * 获取进程内共享的对话存储
+ */
+export function getConversationStore(): ConversationStore {
+  if (!sharedStore) {
+    sharedStore = new ConversationStore();
+  }
+  return sharedStore;
+}
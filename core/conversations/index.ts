@@ -0,0 +1,12 @@
+export {
+  ConversationStore,
+  getConversationStore,
+  DEFAULT_CONVERSATION_TITLE,
+} from "./conversationStore";
+export { recordAssistantTurn, applyStreamChunk } from "./turnRecorder";
+export type {
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+  ConversationToolStep,
+} from "./types";
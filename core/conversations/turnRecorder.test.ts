@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { StreamChunk } from "../models/types";
+import { recordAssistantTurn } from "./turnRecorder";
+import { ConversationMessage } from "./types";
+
+const encoder = new TextEncoder();
+
+function event(chunk: StreamChunk | "[DONE]"): string {
+  return `data: ${chunk === "[DONE]" ? chunk : JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * 把 SSE 文本按给定的片段输出为流，片段边界可以落在事件中间
+ */
+function sseStream(parts: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    pull(controller) {
+      const part = parts.shift();
+      if (part === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(part));
+      }
+    },
+  });
+}
+
+describe("recordAssistantTurn", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("原样转发 SSE 数据，并把事件汇总为一条助手消息", async () => {
+    const body = [
+      event({ type: "thinking", content: "想一想" }),
+      event({
+        type: "tool_call",
+        toolCallId: "call-1",
+        name: "add",
+        args: { a: 1 },
+      }),
+      event({
+        type: "tool_result",
+        toolCallId: "call-1",
+        name: "add",
+        result: "2",
+        duration: 5,
+      }),
+      event({ type: "content", content: "答案" }),
+      event({ type: "content", content: "是 2" }),
+      event("[DONE]"),
+    ].join("");
+    // 在事件中间切分，验证跨片段的事件也能解析
+    const parts = [body.slice(0, 25), body.slice(25, 120), body.slice(120)];
+
+    let saved: ConversationMessage | undefined;
+    const forwarded = await new Response(
+      recordAssistantTurn(sseStream(parts), (message) => {
+        saved = message;
+      })
+    ).text();
+
+    expect(forwarded).toBe(body);
+    expect(saved).toMatchObject({
+      role: "assistant",
+      content: "答案是 2",
+      thinking: "想一想",
+      toolSteps: [
+        {
+          id: "call-1",
+          name: "add",
+          args: { a: 1 },
+          status: "success",
+          result: "2",
+          duration: 5,
+        },
+      ],
+    });
+    expect(saved?.aborted).toBeUndefined();
+  });
+
+  it("没有 [DONE] 时标记为 aborted，出错时只记录错误", async () => {
+    const onComplete = vi.fn();
+    await new Response(
+      recordAssistantTurn(
+        sseStream([event({ type: "content", content: "一半" })]),
+        onComplete
+      )
+    ).text();
+    expect(onComplete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ content: "一半", aborted: true })
+    );
+
+    await new Response(
+      recordAssistantTurn(
+        sseStream([event({ type: "error", error: "模型不可用" })]),
+        onComplete
+      )
+    ).text();
+    const [message] = onComplete.mock.lastCall!;
+    expect(message.error).toBe("模型不可用");
+    expect(message.aborted).toBeUndefined();
+  });
+
+  it("客户端取消时取消上游并保存已生成的部分", async () => {
+    const cancel = vi.fn();
+    const upstream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(event({ type: "content", content: "部分回答" }))
+        );
+      },
+      cancel,
+    });
+    const onComplete = vi.fn();
+    const reader = recordAssistantTurn(upstream, onComplete).getReader();
+
+    await reader.read();
+    await reader.cancel("stop");
+
+    expect(cancel).toHaveBeenCalledWith("stop");
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.lastCall![0]).toMatchObject({
+      content: "部分回答",
+      aborted: true,
+    });
+  });
+
+  it("保存失败时不影响转发", async () => {
+    const error = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const forwarded = await new Response(
+      recordAssistantTurn(sseStream([event("[DONE]")]), async () => {
+        throw new Error("disk full");
+      })
+    ).text();
+    expect(forwarded).toBe(event("[DONE]"));
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import type { StreamChunk } from "../models/types";
+import { ConversationMessage } from "./types";
+
+/**
+ * 将一个流式事件合并到助手消息中
+ */
+export function applyStreamChunk(
+  message: ConversationMessage,
+  chunk: StreamChunk
+): void {
+  switch (chunk.type) {
+    case "content":
+      message.content += chunk.content || "";
+      break;
+    case "thinking":
+      message.thinking = (message.thinking || "") + (chunk.content || "");
+      break;
+    case "tool_call":
+      message.toolSteps = [
+        ...(message.toolSteps || []),
+        {
+          id: chunk.toolCallId || "",
+          name: chunk.name || "",
+          args: chunk.args,
+          status: "running",
+        },
+      ];
+      break;
+    case "tool_result":
+      message.toolSteps = (message.toolSteps || []).map((step) =>
+        step.id === chunk.toolCallId && step.status === "running"
+          ? {
+              ...step,
+              status: chunk.error ? "error" : "success",
+              result: chunk.result,
+              error: chunk.error,
+              duration: chunk.duration,
+            }
+          : step
+      );
+      break;
+    case "sources":
+      // 同一轮中多次检索的编号连续不重复，依次追加
+      message.sources = [...(message.sources || []), ...(chunk.sources || [])];
+      break;
+    case "error":
+      message.error = chunk.error;
+      break;
+  }
+}
+
+/**
+ * 记录流式回答：原样转发 SSE 数据，同时把事件汇总为一条助手消息
+ * 客户端取消读取时向上游传递取消，并保存已生成的部分（标记为 aborted）
+ * @param stream createStreamingResponse 返回的 SSE 流
+ * @param onComplete 流结束或被取消后调用，参数为汇总的助手消息
+ * @returns 转发后的 SSE 流
+ */
+export function recordAssistantTurn(
+  stream: ReadableStream<Uint8Array>,
+  onComplete: (message: ConversationMessage) => Promise<void> | void
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const message: ConversationMessage = {
+    role: "assistant",
+    content: "",
+    createdAt: new Date().toISOString(),
+  };
+  const reader = stream.getReader();
+  let buffer = "";
+  let completed = false; // 收到 [DONE] 表示回答正常结束
+  let finished = false;
+
+  const parseEvents = (events: string[]) => {
+    for (const event of events) {
+      if (!event.startsWith("data: ")) continue;
+      const data = event.slice(6);
+      if (data === "[DONE]") {
+        completed = true;
+        continue;
+      }
+      try {
+        applyStreamChunk(message, JSON.parse(data));
+      } catch {
+        // 忽略无法解析的事件
+      }
+    }
+  };
+
+  const finish = async () => {
+    if (finished) return;
+    finished = true;
+    parseEvents([buffer + decoder.decode()]);
+    // 既没有结束标记也没有错误时，回答在中途被停止
+    if (!completed && !message.error) {
+      message.aborted = true;
+    }
+    try {
+      await onComplete(message);
+    } catch (error) {
+      console.error("保存助手消息失败:", error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        await finish();
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = events.pop() || "";
+      parseEvents(events);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      await finish();
+    },
+  });
+}
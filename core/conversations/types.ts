@@ -0,0 +1,50 @@
+import type { SourceDocument } from "../rag/sources";
+
+/**
+ * 回答过程中的一次工具调用
+ */
+export interface ConversationToolStep {
+  id: string;
+  name: string;
+  args?: Record<string, any>;
+  status: "running" | "success" | "error"; // running 表示回答中断时工具仍未返回
+  result?: string;
+  error?: string;
+  duration?: number; // 工具执行耗时（毫秒）
+}
+
+/**
+ * 对话中的一条消息；助手消息附带思考过程、引用来源和工具调用
+ */
+export interface ConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string; // ISO 时间
+  thinking?: string;
+  sources?: SourceDocument[];
+  toolSteps?: ConversationToolStep[];
+  error?: string; // 回答过程中出现的错误
+  aborted?: boolean; // 回答被用户停止或连接断开，content 为已生成的部分
+}
+
+/**
+ * 对话
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+}
+
+/**
+ * 对话列表项（不含消息）
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
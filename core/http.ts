@@ -0,0 +1,11 @@
+/**
+ * 返回 JSON 响应，供各 API 路由使用
+ * @param body 响应体，序列化为 JSON
+ * @param status HTTP 状态码，默认 200
+ */
+export function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
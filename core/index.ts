@@ -1,4 +1,20 @@
-export { OllamaModel, DeepSeekModel, RAGModel } from "./models";
-export type { RAGModelOptions } from "./models";
+export {
+  AgentModel,
+  OllamaModel,
+  DeepSeekModel,
+  RAGModel,
+  registerProvider,
+  listProviders,
+  createChatModel,
+} from "./models";
+export type {
+  AgentModelOptions,
+  RAGModelOptions,
+  RAGMode,
+  ChatProviderFactory,
+  ChatProviderOptions,
+  ChatMessage,
+  StreamChunk,
+} from "./models";
 
 // import "@/core/rag";
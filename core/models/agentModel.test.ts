@@ -0,0 +1,217 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { AgentModel } from "./agentModel";
+import { createChatModel } from "./providers";
+import { StreamChunk } from "./types";
+
+vi.mock("@langchain/ollama", () => ({
+  ChatOllama: class {},
+  OllamaEmbeddings: class {},
+}));
+vi.mock("./providers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./providers")>()),
+  createChatModel: vi.fn(),
+}));
+
+type Step = { content?: string; toolCalls?: Array<[string, object]> };
+
+/**
+ * Scripted chat model: each stream() call answers with the next step. The
+ * model returned by bindTools shares the script, so calls with and without
+ * tools can be told apart
+ */
+function scriptedModel(steps: Step[]) {
+  let callCount = 0;
+  const calls: Array<{ withTools: boolean; messages: BaseMessage[] }> = [];
+  const stream = (withTools: boolean) =>
+    vi.fn(
+      async (messages: BaseMessage[], options?: { signal?: AbortSignal }) => {
+        options?.signal?.throwIfAborted();
+        calls.push({ withTools, messages });
+        const step = steps.shift() || {};
+        const chunk = new AIMessageChunk({
+          content: step.content || "",
+          tool_call_chunks: (step.toolCalls || []).map(
+            ([name, args], index) => ({
+              type: "tool_call_chunk" as const,
+              id: `call-${++callCount}`,
+              name,
+              args: JSON.stringify(args),
+              index,
+            })
+          ),
+        });
+        return (async function* () {
+          yield chunk;
+        })();
+      }
+    );
+  const bound = { stream: stream(true) };
+  const model = { stream: stream(false), bindTools: vi.fn(() => bound) };
+  vi.mocked(createChatModel).mockReturnValue(model as unknown as BaseChatModel);
+  return { calls };
+}
+
+const addTool = tool(async ({ a, b }) => String(a + b), {
+  name: "add",
+  description: "Add two numbers",
+  schema: z.object({ a: z.number(), b: z.number() }),
+});
+
+async function run(agent: AgentModel): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  await agent.streamChat([{ role: "user", content: "What is 1 + 2?" }], (c) =>
+    chunks.push(c)
+  );
+  return chunks;
+}
+
+describe("AgentModel", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs the tools the model asks for and feeds the results back", async () => {
+    const { calls } = scriptedModel([
+      { toolCalls: [["add", { a: 1, b: 2 }]] },
+      { content: "1 + 2 = 3" },
+    ]);
+    const chunks = await run(new AgentModel({ tools: [addTool] }));
+
+    expect(calls).toHaveLength(2);
+    const toolMessage = calls[1].messages[calls[1].messages.length - 1];
+    expect(ToolMessage.isInstance(toolMessage)).toBe(true);
+    expect(toolMessage.content).toBe("3");
+    expect(
+      chunks.filter((c) => c.type === "content").map((c) => c.content)
+    ).toEqual(["1 + 2 = 3"]);
+  });
+
+  it("forces a final answer without tools after maxIterations", async () => {
+    const { calls } = scriptedModel([
+      { toolCalls: [["add", { a: 1, b: 2 }]] },
+      { toolCalls: [["add", { a: 3, b: 4 }]] },
+      { content: "Done" },
+    ]);
+    const chunks = await run(
+      new AgentModel({ tools: [addTool], maxIterations: 2 })
+    );
+
+    expect(calls.map((call) => call.withTools)).toEqual([true, true, false]);
+    expect(chunks.filter((c) => c.type === "error")).toEqual([]);
+    expect(chunks[chunks.length - 1]).toEqual({
+      type: "content",
+      content: "Done",
+    });
+  });
+
+  it("reports an empty final answer as an error", async () => {
+    scriptedModel([{ content: "  " }]);
+    const chunks = await run(new AgentModel({ tools: [addTool] }));
+    expect(chunks[chunks.length - 1]).toEqual({
+      type: "error",
+      error: "The model returned an empty response",
+    });
+  });
+
+  it("streams tool_call and tool_result events, including failed calls", async () => {
+    const { calls } = scriptedModel([
+      {
+        toolCalls: [
+          ["add", { a: 1, b: 2 }],
+          ["missing", {}],
+        ],
+      },
+      { content: "3" },
+    ]);
+    const chunks = await run(new AgentModel({ tools: [addTool] }));
+
+    const events = chunks
+      .filter((c) => c.type === "tool_call" || c.type === "tool_result")
+      .map(({ duration, ...chunk }) => chunk);
+    expect(events).toEqual([
+      {
+        type: "tool_call",
+        toolCallId: "call-1",
+        name: "add",
+        args: { a: 1, b: 2 },
+      },
+      { type: "tool_result", toolCallId: "call-1", name: "add", result: "3" },
+      { type: "tool_call", toolCallId: "call-2", name: "missing", args: {} },
+      {
+        type: "tool_result",
+        toolCallId: "call-2",
+        name: "missing",
+        error: 'Unknown tool "missing"',
+      },
+    ]);
+    // Every tool call gets a ToolMessage so the next model call is valid
+    expect(calls[1].messages.filter(ToolMessage.isInstance)).toHaveLength(2);
+  });
+
+  it("stops running tools and emits no error when aborted", async () => {
+    const controller = new AbortController();
+    const stopTool = tool(
+      async () => {
+        controller.abort();
+        return "stopped";
+      },
+      { name: "stop", description: "Abort the request", schema: z.object({}) }
+    );
+    const { calls } = scriptedModel([
+      {
+        toolCalls: [
+          ["stop", {}],
+          ["add", { a: 1, b: 2 }],
+        ],
+      },
+      { content: "never sent" },
+    ]);
+
+    const chunks: StreamChunk[] = [];
+    await new AgentModel({ tools: [stopTool, addTool] }).streamChat(
+      [{ role: "user", content: "Stop" }],
+      (chunk) => chunks.push(chunk),
+      { signal: controller.signal }
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(chunks.map((c) => `${c.type}:${c.name ?? ""}`)).toEqual([
+      "tool_call:stop",
+      "tool_result:stop",
+    ]);
+  });
+
+  it("ends the SSE stream with [DONE] only for complete answers", async () => {
+    const read = (stream: ReadableStream<Uint8Array>) =>
+      new Response(stream).text();
+
+    scriptedModel([{ content: "Hi" }]);
+    const complete = await new AgentModel({
+      tools: [],
+    }).createStreamingResponse([{ role: "user", content: "Hello" }]);
+    expect(await read(complete)).toBe(
+      'data: {"type":"content","content":"Hi"}\n\ndata: [DONE]\n\n'
+    );
+
+    scriptedModel([{ content: "Hi" }]);
+    const aborted = await new AgentModel({ tools: [] }).createStreamingResponse(
+      [{ role: "user", content: "Hello" }],
+      { signal: AbortSignal.abort() }
+    );
+    expect(await read(aborted)).toBe("");
+  });
+});
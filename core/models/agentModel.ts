@@ -0,0 +1,486 @@
+import {
+  HumanMessage,
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { getToolInstructions, getTools } from "../tools";
+import { EmbeddingMismatchError } from "../rag/vectorStore";
+import { createChatModel, ChatProviderOptions } from "./providers";
+import { ChatMessage, StreamChunk, AgentOptions } from "./types";
+import {
+  ContextBudget,
+  ContextManager,
+  ContextOptions,
+  FittedHistory,
+} from "./contextManager";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Agent configuration: which provider/model to use plus agent loop and
+ * context window options
+ */
+export interface AgentModelOptions
+  extends AgentOptions,
+    ChatProviderOptions,
+    ContextOptions {
+  provider?: string; // Registered provider name, defaults to CHAT_PROVIDER
+  tools?: StructuredToolInterface[]; // Defaults to getTools()
+  enabledTools?: string[]; // Only offer tools with these names, [] disables tools
+  instructions?: string; // Appended to the system prompt, e.g. client system messages
+}
+
+const DEFAULT_MAX_ITERATIONS = 5;
+
+// Chat model with tools bound, or the plain model when no tools are offered
+type ToolCallingModel = ReturnType<NonNullable<BaseChatModel["bindTools"]>>;
+
+/**
+ * Provider-agnostic tool-calling agent. The chat model comes from the
+ * provider registry, so the same loop works for Ollama, DeepSeek and any
+ * OpenAI-compatible endpoint.
+ */
+export class AgentModel {
+  private model!: ToolCallingModel;
+  protected baseModel: BaseChatModel;
+  private tools!: StructuredToolInterface[];
+  private toolMap!: Map<string, StructuredToolInterface>;
+  private enabledTools?: string[];
+  private providerName?: string;
+  private basePrompt: string;
+  private instructions?: string;
+  private systemPrompt!: string;
+  private maxIterations: number;
+  protected contextManager: ContextManager;
+
+  constructor(options: AgentModelOptions = {}) {
+    // Load system prompt from markdown file
+    try {
+      const promptPath = join(process.cwd(), "static", "SYSTEM_PROMPT.md");
+      this.basePrompt = readFileSync(promptPath, "utf-8");
+      // Remove markdown headers and keep only the content
+      this.basePrompt = this.basePrompt.replace(/^#+\s+.*$/gm, "").trim();
+    } catch (error) {
+      console.warn("Failed to load SYSTEM_PROMPT.md, using default prompt");
+      this.basePrompt = "You are a helpful AI assistant.";
+    }
+    this.instructions = options.instructions;
+
+    this.providerName = options.provider;
+    this.baseModel = createChatModel(options.provider, {
+      model: options.model,
+      temperature: options.temperature,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      contextWindow: options.contextWindow,
+    });
+    this.contextManager = new ContextManager(this.baseModel, options);
+
+    this.enabledTools = options.enabledTools;
+    this.setTools(options.tools || getTools());
+
+    this.maxIterations =
+      options.maxIterations ||
+      parseInt(process.env.AGENT_MAX_ITERATIONS || "") ||
+      DEFAULT_MAX_ITERATIONS;
+  }
+
+  /**
+   * Replace the tools available to the agent and rebind them to the model.
+   * Tools not listed in enabledTools are left out
+   */
+  protected setTools(tools: StructuredToolInterface[]): void {
+    const enabledTools = this.enabledTools;
+    this.tools = enabledTools
+      ? tools.filter((tool) => enabledTools.includes(tool.name))
+      : tools;
+    this.toolMap = new Map();
+    this.tools.forEach((tool) => {
+      this.toolMap.set(tool.name, tool);
+    });
+
+    // Describe optional tools only while they are offered to the model
+    this.systemPrompt = [
+      this.basePrompt,
+      getToolInstructions(this.tools),
+      this.instructions,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    // Nothing to bind: some providers reject an empty tool list
+    if (this.tools.length === 0) {
+      this.model = this.baseModel;
+      return;
+    }
+
+    if (!this.baseModel.bindTools) {
+      throw new Error(
+        `Chat provider "${this.providerName}" does not support tool calling`
+      );
+    }
+    this.model = this.baseModel.bindTools(this.tools);
+  }
+
+  /**
+   * Token budget of the system prompt, retrieved documents and history
+   */
+  protected getContextBudget(): ContextBudget {
+    return this.contextManager.getBudget(this.systemPrompt);
+  }
+
+  /**
+   * Fit the conversation into the history budget, folding the oldest turns
+   * into a running summary when it does not fit
+   */
+  private async fitContext(
+    messages: ChatMessage[],
+    signal?: AbortSignal
+  ): Promise<FittedHistory> {
+    return this.contextManager.fitHistory(
+      messages,
+      this.getContextBudget().history,
+      signal
+    );
+  }
+
+  /**
+   * Convert chat messages to LangChain format. The running summary of folded
+   * turns is appended to the system prompt
+   */
+  private convertToLangChainMessages(
+    messages: ChatMessage[],
+    summary?: string
+  ): BaseMessage[] {
+    const langchainMessages: BaseMessage[] = [
+      new SystemMessage(
+        summary
+          ? `${this.systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`
+          : this.systemPrompt
+      ),
+    ];
+
+    messages.forEach((msg) => {
+      if (msg.role === "user") {
+        langchainMessages.push(new HumanMessage(msg.content));
+      } else if (msg.role === "assistant") {
+        langchainMessages.push(new AIMessage(msg.content));
+      }
+    });
+
+    return langchainMessages;
+  }
+
+  /**
+   * Hook for layers on top of the agent (e.g. RAG) to rewrite the
+   * conversation before it is sent to the model. Layers may emit their own
+   * events (e.g. sources) through onChunk and should stop their own work
+   * (e.g. retrieval) when signal is aborted.
+   */
+  protected async prepareMessages(
+    messages: ChatMessage[],
+    onChunk?: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<ChatMessage[]> {
+    return messages;
+  }
+
+  /**
+   * Run the agent on a conversation, reporting content, thinking, tool and
+   * RAG events through onChunk. Errors are reported as an error event;
+   * aborting options.signal stops all work and nothing more is emitted
+   */
+  async streamChat(
+    messages: ChatMessage[],
+    onChunk: (chunk: StreamChunk) => void,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<void> {
+    const { signal } = options;
+    try {
+      // Retrieval and summarization errors are reported like model errors
+      const context = await this.fitContext(messages, signal);
+      const langchainMessages = this.convertToLangChainMessages(
+        await this.prepareMessages(context.messages, onChunk, signal),
+        context.summary
+      );
+      await this.runAgentLoop(langchainMessages, onChunk, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return;
+      }
+      console.error("Stream error:", error);
+      onChunk({
+        type: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Stream one model call, forwarding content and thinking as they arrive.
+   * The chunks are merged so tool calls can be read from the result
+   */
+  private async streamStep(
+    model: ToolCallingModel,
+    messages: BaseMessage[],
+    onChunk?: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<AIMessageChunk> {
+    let response = new AIMessageChunk({ content: "" });
+    const stream = await model.stream(messages, { signal });
+
+    for await (const chunk of stream) {
+      response = response.concat(chunk);
+
+      const content = chunk.content;
+      if (typeof content === "string" && content) {
+        // Check if chunk has additional fields (like thinking/reasoning)
+        const chunkAny = chunk as any;
+
+        onChunk?.({ type: "content", content });
+
+        if (chunkAny.reasoning_content || chunkAny.thinking) {
+          const thinkingContent =
+            chunkAny.reasoning_content || chunkAny.thinking;
+          if (thinkingContent) {
+            onChunk?.({ type: "thinking", content: thinkingContent });
+          }
+        }
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Execute tool calls, reporting each call and its result through onChunk.
+   * sourceOffset is the number of sources already reported in this turn;
+   * tools that cite documents (search_knowledge_base) continue numbering
+   * after it, so [文档 N] stays unique across repeated searches
+   * @returns The tool messages and the updated source count
+   */
+  private async executeToolCalls(
+    toolCalls: ToolCall[],
+    onChunk?: (chunk: StreamChunk) => void,
+    signal?: AbortSignal,
+    sourceOffset: number = 0
+  ): Promise<{ toolMessages: ToolMessage[]; sourceOffset: number }> {
+    const toolMessages: ToolMessage[] = [];
+
+    for (const toolCall of toolCalls) {
+      signal?.throwIfAborted();
+      const toolCallId = toolCall.id || "";
+      const args = toolCall.args || {};
+      onChunk?.({ type: "tool_call", toolCallId, name: toolCall.name, args });
+
+      const startTime = Date.now();
+      const tool = this.toolMap.get(toolCall.name);
+      if (!tool) {
+        // Every tool call needs a matching ToolMessage, otherwise the next
+        // model call in the agent loop is rejected
+        const error = `Unknown tool "${toolCall.name}"`;
+        onChunk?.({
+          type: "tool_result",
+          toolCallId,
+          name: toolCall.name,
+          duration: Date.now() - startTime,
+          error,
+        });
+        toolMessages.push(
+          new ToolMessage({
+            content: `Error: ${error}`,
+            tool_call_id: toolCallId,
+          })
+        );
+        continue;
+      }
+
+      try {
+        // Invoking with the full tool call returns a ToolMessage, which keeps
+        // any artifact the tool attached to its result
+        const output = await tool.invoke(
+          {
+            ...toolCall,
+            args,
+            type: "tool_call",
+          },
+          { signal, configurable: { sourceOffset } }
+        );
+        const result = ToolMessage.isInstance(output)
+          ? String(output.content)
+          : String(output);
+        onChunk?.({
+          type: "tool_result",
+          toolCallId,
+          name: toolCall.name,
+          duration: Date.now() - startTime,
+          result,
+        });
+
+        // Tools such as search_knowledge_base attach the documents they used
+        const artifact = ToolMessage.isInstance(output)
+          ? output.artifact
+          : undefined;
+        if (artifact && Array.isArray(artifact.sources)) {
+          onChunk?.({ type: "sources", sources: artifact.sources });
+          sourceOffset += artifact.sources.length;
+        }
+        // Tools only attach a retrieval trace when retrieval debugging is on
+        if (artifact?.trace) {
+          onChunk?.({ type: "retrieval", trace: artifact.trace });
+        }
+
+        toolMessages.push(
+          new ToolMessage({
+            content: result,
+            tool_call_id: toolCallId,
+          })
+        );
+      } catch (error) {
+        // A cancelled request ends the loop instead of reporting a tool error
+        signal?.throwIfAborted();
+        // Searching a collection built with another embedding model cannot
+        // succeed on retry, so fail the request as the always mode does
+        if (error instanceof EmbeddingMismatchError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        onChunk?.({
+          type: "tool_result",
+          toolCallId,
+          name: toolCall.name,
+          duration: Date.now() - startTime,
+          error: message,
+        });
+        toolMessages.push(
+          new ToolMessage({
+            content: `Error: ${message}`,
+            tool_call_id: toolCallId,
+          })
+        );
+      }
+    }
+
+    return { toolMessages, sourceOffset };
+  }
+
+  /**
+   * Run the agent loop: stream the model, run the tools it asks for and feed
+   * the results back until it answers without tools. Every step is streamed,
+   * so the final answer costs no extra model call
+   */
+  private async runAgentLoop(
+    messages: BaseMessage[],
+    onChunk?: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let langchainMessages = messages;
+    let sourceOffset = 0;
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      const response = await this.streamStep(
+        this.model,
+        langchainMessages,
+        onChunk,
+        signal
+      );
+      const toolCalls = response.tool_calls || [];
+
+      if (toolCalls.length === 0) {
+        if (!String(response.content).trim()) {
+          throw new Error("The model returned an empty response");
+        }
+        return;
+      }
+
+      const result = await this.executeToolCalls(
+        toolCalls,
+        onChunk,
+        signal,
+        sourceOffset
+      );
+      const toolMessages = result.toolMessages;
+      sourceOffset = result.sourceOffset;
+      langchainMessages = [...langchainMessages, response, ...toolMessages];
+    }
+
+    console.warn(
+      `Agent loop reached maxIterations (${this.maxIterations}), forcing a final answer`
+    );
+    // Use the model without tools so it has to answer
+    const response = await this.streamStep(
+      this.baseModel,
+      langchainMessages,
+      onChunk,
+      signal
+    );
+    if (!String(response.content).trim()) {
+      throw new Error("The model returned an empty response");
+    }
+  }
+
+  /**
+   * Create a streaming response for HTTP. The work is aborted when
+   * options.signal fires (e.g. the request's signal) or the consumer cancels
+   * the stream, so a closed connection stops model calls, retrieval and tools
+   */
+  async createStreamingResponse(
+    messages: ChatMessage[],
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const encoder = new TextEncoder();
+    const streamChat = this.streamChat.bind(this);
+
+    const abortController = new AbortController();
+    const callerSignal = options.signal;
+    if (callerSignal?.aborted) {
+      abortController.abort(callerSignal.reason);
+    } else {
+      callerSignal?.addEventListener(
+        "abort",
+        () => abortController.abort(callerSignal.reason),
+        { once: true }
+      );
+    }
+    const signal = abortController.signal;
+
+    return new ReadableStream({
+      async start(controller) {
+        let failed = false;
+        // After an abort the consumer may already have cancelled the stream,
+        // so nothing more is enqueued
+        const emit = (chunk: StreamChunk) => {
+          if (chunk.type === "error") {
+            failed = true;
+          }
+          if (!signal.aborted) {
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`)
+            );
+          }
+        };
+
+        await streamChat(messages, emit, { signal });
+
+        // [DONE] marks a complete answer; errors and aborts end without it
+        if (!failed && !signal.aborted) {
+          controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the consumer
+        }
+      },
+      cancel(reason) {
+        abortController.abort(reason);
+      },
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  chatRequestSchema,
+  MAX_CHAT_MESSAGE_CHARS,
+  MAX_CHAT_MESSAGES,
+} from "./chatRequest";
+
+// The schema only reads provider and tool names, no model is created
+vi.mock("@langchain/ollama", () => ({
+  ChatOllama: class {},
+  OllamaEmbeddings: class {},
+}));
+
+const messages = [{ role: "user", content: "What is RAG?" }];
+
+function issues(body: unknown): string[] {
+  const result = chatRequestSchema.safeParse(body);
+  return result.success
+    ? []
+    : result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`
+      );
+}
+
+describe("chatRequestSchema", () => {
+  it("accepts a minimal request", () => {
+    expect(chatRequestSchema.parse({ messages })).toEqual({ messages });
+  });
+
+  it("accepts every per-request option", () => {
+    const body = {
+      messages,
+      provider: "deepseek",
+      model: "deepseek-chat",
+      temperature: 0.3,
+      enableRAG: true,
+      k: 6,
+      collection: "project-docs",
+      tools: ["get_current_time", "search_knowledge_base"],
+      filter: { metadata: { source: "guide.md" } },
+      conversationId: "4f9d0d5e-8f5c-4d7a-9a57-2b1f0f5c8e21",
+    };
+    expect(chatRequestSchema.parse(body)).toEqual(body);
+  });
+
+  it("requires the last message to be a non-empty user message", () => {
+    expect(issues({ messages: [] })).not.toEqual([]);
+    expect(
+      issues({ messages: [...messages, { role: "assistant", content: "Hi" }] })
+    ).toEqual(["messages: The last message must be a non-empty user message"]);
+    expect(issues({ messages: [{ role: "user", content: "  " }] })).toEqual([
+      "messages: The last message must be a non-empty user message",
+    ]);
+  });
+
+  it("limits the number and size of messages", () => {
+    expect(
+      issues({
+        messages: Array.from({ length: MAX_CHAT_MESSAGES + 1 }, () => ({
+          role: "user",
+          content: "hi",
+        })),
+      })
+    ).toHaveLength(1);
+    expect(
+      issues({
+        messages: [
+          { role: "user", content: "x".repeat(MAX_CHAT_MESSAGE_CHARS + 1) },
+        ],
+      })
+    ).toHaveLength(1);
+  });
+
+  it("rejects unknown providers and tools with the available names", () => {
+    expect(issues({ messages, provider: "anthropic" })[0]).toMatch(
+      /^provider: Unknown chat provider "anthropic"\. Available providers: .*ollama/
+    );
+    expect(issues({ messages, tools: ["get_weather", "rm_rf"] })).toEqual([
+      expect.stringMatching(
+        /^tools\.1: Unknown tool "rm_rf"\. Available tools: .*search_knowledge_base/
+      ),
+    ]);
+  });
+
+  it("validates ranges, collection names and filters", () => {
+    expect(issues({ messages, temperature: 3 })).toHaveLength(1);
+    expect(issues({ messages, k: 0 })).toHaveLength(1);
+    expect(issues({ messages, k: 1.5 })).toHaveLength(1);
+    expect(issues({ messages, collection: "a" })).toEqual([
+      "collection: Invalid collection name",
+    ]);
+    expect(issues({ messages, collection: "-docs" })).toHaveLength(1);
+    expect(
+      issues({ messages, filter: { metadata: { version: { $regex: "1" } } } })
+    ).not.toEqual([]);
+    expect(issues({ messages, conversationId: "not-a-uuid" })).toHaveLength(1);
+  });
+
+  it("rejects unknown fields", () => {
+    expect(issues({ messages, stream: true })[0]).toMatch(/stream/);
+  });
+});
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { retrievalFilterSchema } from "../rag/stores";
+import { getTools } from "../tools";
+import { listProviders } from "./providers";
+
+// Limits on client-supplied history; longer chats are folded by the context
+// manager, so these only guard against oversized payloads
+export const MAX_CHAT_MESSAGES = 200;
+export const MAX_CHAT_MESSAGE_CHARS = 32000;
+
+// Chroma collection names: 3-63 characters, alphanumeric at both ends
+const COLLECTION_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{1,61}[a-zA-Z0-9]$/;
+
+const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(MAX_CHAT_MESSAGE_CHARS),
+});
+
+/**
+ * Body of POST /api/chat. Everything except messages is optional and falls
+ * back to the server configuration (env vars)
+ */
+export const chatRequestSchema = z
+  .object({
+    messages: z
+      .array(chatMessageSchema)
+      .min(1)
+      .max(MAX_CHAT_MESSAGES)
+      .refine(
+        (messages) =>
+          messages[messages.length - 1]?.role === "user" &&
+          messages[messages.length - 1].content.trim() !== "",
+        { message: "The last message must be a non-empty user message" }
+      ),
+    provider: z
+      .string()
+      .refine(
+        (name) => listProviders().includes(name),
+        (name) => ({
+          message: `Unknown chat provider "${name}". Available providers: ${listProviders().join(
+            ", "
+          )}`,
+        })
+      )
+      .optional(),
+    model: z.string().min(1).max(200).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    enableRAG: z.boolean().optional(),
+    k: z.number().int().min(1).max(20).optional(),
+    collection: z
+      .string()
+      .regex(COLLECTION_NAME_PATTERN, "Invalid collection name")
+      .optional(),
+    // Names of the tools the agent may call, [] disables tool calling
+    tools: z
+      .array(z.string())
+      .superRefine((names, ctx) => {
+        // Include the knowledge base tool, which RAG models register in tool mode
+        const available = getTools({ knowledgeBase: {} }).map(
+          (tool) => tool.name
+        );
+        names.forEach((name, index) => {
+          if (!available.includes(name)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index],
+              message: `Unknown tool "${name}". Available tools: ${available.join(
+                ", "
+              )}`,
+            });
+          }
+        });
+      })
+      .optional(),
+    filter: retrievalFilterSchema.optional(),
+    conversationId: z.string().uuid().optional(),
+  })
+  .strict();
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
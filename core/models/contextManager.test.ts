@@ -0,0 +1,181 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ContextManager,
+  estimateMessageTokens,
+  estimateTokens,
+  fitDocuments,
+} from "./contextManager";
+import { ChatMessage } from "./types";
+
+function fakeModel(summary: string | (() => Promise<string>)) {
+  const invoke = vi.fn(async () => ({
+    content: typeof summary === "string" ? summary : await summary(),
+  }));
+  return { model: { invoke } as unknown as BaseChatModel, invoke };
+}
+
+function conversation(turns: number, length: number): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  for (let i = 0; i < turns; i++) {
+    messages.push({
+      role: "user",
+      content: `question ${i} ${"q".repeat(length)}`,
+    });
+    messages.push({
+      role: "assistant",
+      content: `answer ${i} ${"a".repeat(length)}`,
+    });
+  }
+  return messages;
+}
+
+describe("estimateTokens", () => {
+  it("counts CJK characters as one token and other text per 4 characters", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+    expect(estimateTokens("工具集成")).toBe(4);
+    expect(estimateTokens("使用 RAG")).toBe(3);
+  });
+
+  it("adds a per-message overhead", () => {
+    expect(estimateMessageTokens({ role: "user", content: "abcd" })).toBe(5);
+  });
+});
+
+describe("fitDocuments", () => {
+  const documents = [
+    { pageContent: "a".repeat(40) },
+    { pageContent: "b".repeat(40) },
+    { pageContent: "c".repeat(40) },
+  ];
+
+  it("keeps documents in rank order until the budget is used up", () => {
+    // Each document costs 10 + 4 tokens
+    expect(fitDocuments(documents, 28)).toEqual(documents.slice(0, 2));
+    expect(fitDocuments(documents, 1000)).toEqual(documents);
+  });
+
+  it("clips the first document when it alone exceeds the budget", () => {
+    const fitted = fitDocuments(documents, 9);
+    expect(fitted).toHaveLength(1);
+    expect(fitted[0].pageContent).toBe(`${"a".repeat(20)}…`);
+  });
+});
+
+describe("ContextManager", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.CONTEXT_WINDOW_TOKENS;
+    delete process.env.CONTEXT_RESPONSE_TOKENS;
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    vi.restoreAllMocks();
+  });
+
+  it("splits the window between system prompt, documents and history", () => {
+    const { model } = fakeModel("");
+    const manager = new ContextManager(model, {
+      contextWindow: 2000,
+      responseTokens: 500,
+      documentRatio: 0.4,
+    });
+    // "abcd" costs 1 token plus the message overhead
+    expect(manager.getBudget("abcd")).toEqual({
+      system: 5,
+      documents: 598,
+      history: 897,
+    });
+  });
+
+  it("reads the window size from the environment", () => {
+    process.env.CONTEXT_WINDOW_TOKENS = "4096";
+    process.env.CONTEXT_RESPONSE_TOKENS = "1000";
+    const { model } = fakeModel("");
+    const budget = new ContextManager(model).getBudget("");
+    expect(budget.system + budget.documents + budget.history).toBe(4096 - 1000);
+  });
+
+  it("keeps a history that fits without calling the model", async () => {
+    const { model, invoke } = fakeModel("summary");
+    const manager = new ContextManager(model);
+    const messages = conversation(2, 10);
+    expect(await manager.fitHistory(messages, 1000)).toEqual({
+      messages,
+      folded: 0,
+    });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("folds the oldest turns into a summary, keeping history from a user turn", async () => {
+    const { model, invoke } = fakeModel("<think>…</think>earlier summary");
+    const manager = new ContextManager(model, { summaryTokens: 20 });
+    const messages = conversation(6, 100);
+
+    const fitted = await manager.fitHistory(messages, 150);
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(fitted.summary).toBe("earlier summary");
+    expect(fitted.folded).toBeGreaterThan(0);
+    expect(fitted.messages[0].role).toBe("user");
+    expect(fitted.messages).toEqual(messages.slice(fitted.folded));
+    expect(fitted.messages[fitted.messages.length - 1]).toBe(
+      messages[messages.length - 1]
+    );
+  });
+
+  it("reuses a cached summary on the next request", async () => {
+    const { model, invoke } = fakeModel("cached summary");
+    const manager = new ContextManager(model, { summaryTokens: 20 });
+    const messages = conversation(6, 100).map((message) => ({
+      ...message,
+      content: `${message.content} cache`,
+    }));
+
+    const first = await manager.fitHistory(messages, 150);
+    const second = await manager.fitHistory(
+      [...messages, { role: "user", content: "follow-up" }],
+      150
+    );
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(second.summary).toBe("cached summary");
+    expect(second.folded).toBe(first.folded);
+  });
+
+  it("drops the folded turns when summarizing fails", async () => {
+    const { model } = fakeModel(async () => {
+      throw new Error("model unavailable");
+    });
+    const manager = new ContextManager(model, { summaryTokens: 20 });
+    const messages = conversation(6, 100).map((message) => ({
+      ...message,
+      content: `${message.content} failing`,
+    }));
+
+    const fitted = await manager.fitHistory(messages, 150);
+    expect(fitted.summary).toBeUndefined();
+    expect(fitted.folded).toBeGreaterThan(0);
+  });
+
+  it("rethrows when the request is aborted while summarizing", async () => {
+    const controller = new AbortController();
+    const { model } = fakeModel(async () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+    const manager = new ContextManager(model, { summaryTokens: 20 });
+    const messages = conversation(6, 100).map((message) => ({
+      ...message,
+      content: `${message.content} aborted`,
+    }));
+
+    await expect(
+      manager.fitHistory(messages, 150, controller.signal)
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,307 @@
+import { createHash } from "crypto";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatMessage } from "./types";
+
+/**
+ * Context window budgeting options. Token counts are estimates, see
+ * estimateTokens
+ */
+export interface ContextOptions {
+  contextWindow?: number; // Model context size, defaults to CONTEXT_WINDOW_TOKENS or 8192
+  responseTokens?: number; // Kept free for the answer, defaults to CONTEXT_RESPONSE_TOKENS or 1024
+  documentRatio?: number; // Share of the prompt budget for retrieved documents, defaults to 0.4
+  summaryTokens?: number; // Upper bound of the running summary, defaults to 512
+}
+
+/**
+ * Token budget of each part of the prompt
+ */
+export interface ContextBudget {
+  system: number; // Used by the system prompt
+  documents: number; // Available for retrieved documents (inlined or tool results)
+  history: number; // Available for the conversation, including the running summary
+}
+
+/**
+ * History after fitting it into its budget
+ */
+export interface FittedHistory {
+  messages: ChatMessage[]; // Messages still sent verbatim
+  summary?: string; // Running summary of the folded messages
+  folded: number; // Number of oldest messages replaced by the summary
+}
+
+// Rough per-message cost of role markers and separators
+const MESSAGE_OVERHEAD = 4;
+// Folded messages are clipped before summarizing so the summary call fits too
+const MAX_FOLDED_MESSAGE_CHARS = 2000;
+const MAX_CACHED_SUMMARIES = 200;
+
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Estimate the token count of a text without a tokenizer: CJK characters
+ * count as one token each, everything else as one token per 4 characters
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length || 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Estimate the token count of a chat message, including its overhead
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD;
+}
+
+/**
+ * Cut a text down to roughly maxTokens
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  let tokens = 0;
+  let end = 0;
+  for (const char of text) {
+    tokens += char.match(CJK_PATTERN) ? 1 : 0.25;
+    if (tokens > maxTokens) break;
+    end += char.length;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+/**
+ * Keep retrieved documents in rank order until the token budget is used up.
+ * The first document is always kept, clipped to the budget if needed, so a
+ * single long chunk does not leave the model without any context
+ */
+export function fitDocuments<T extends { pageContent: string }>(
+  documents: T[],
+  maxTokens: number
+): T[] {
+  const fitted: T[] = [];
+  let used = 0;
+  for (const document of documents) {
+    const tokens = estimateTokens(document.pageContent) + MESSAGE_OVERHEAD;
+    if (used + tokens > maxTokens) {
+      if (fitted.length === 0) {
+        fitted.push({
+          ...document,
+          pageContent: truncateToTokens(
+            document.pageContent,
+            Math.max(0, maxTokens - MESSAGE_OVERHEAD)
+          ),
+        });
+      }
+      break;
+    }
+    fitted.push(document);
+    used += tokens;
+  }
+  return fitted;
+}
+
+// Summaries keyed by a hash of the folded message prefix. Clients resend the
+// whole history on every request, so the cache lets later requests reuse a
+// summary and only fold the turns that overflowed since
+const summaryCache = new Map<string, string>();
+
+function cacheSummary(key: string, summary: string): void {
+  summaryCache.delete(key);
+  summaryCache.set(key, summary);
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+}
+
+/**
+ * Hash of every message prefix: keys[i] identifies messages.slice(0, i)
+ */
+function prefixKeys(messages: ChatMessage[]): string[] {
+  const keys = [""];
+  for (const message of messages) {
+    const previous = keys[keys.length - 1];
+    keys.push(
+      createHash("sha256")
+        .update(`${previous}\n${message.role}\n${message.content}`)
+        .digest("hex")
+    );
+  }
+  return keys;
+}
+
+/**
+ * Splits the context window between the system prompt, retrieved documents
+ * and history, and folds old turns into a running summary when the history
+ * outgrows its share
+ */
+export class ContextManager {
+  private model: BaseChatModel;
+  private contextWindow: number;
+  private responseTokens: number;
+  private documentRatio: number;
+  private summaryTokens: number;
+
+  constructor(model: BaseChatModel, options: ContextOptions = {}) {
+    this.model = model;
+    this.contextWindow =
+      options.contextWindow ||
+      parseInt(process.env.CONTEXT_WINDOW_TOKENS || "") ||
+      8192;
+    this.responseTokens =
+      options.responseTokens ??
+      (parseInt(process.env.CONTEXT_RESPONSE_TOKENS || "") || 1024);
+    this.documentRatio = Math.min(Math.max(options.documentRatio ?? 0.4, 0), 1);
+    this.summaryTokens = options.summaryTokens || 512;
+  }
+
+  /**
+   * Compute the budget of each part for the given system prompt
+   */
+  getBudget(systemPrompt: string): ContextBudget {
+    const system = estimateTokens(systemPrompt) + MESSAGE_OVERHEAD;
+    const available = Math.max(
+      0,
+      this.contextWindow - this.responseTokens - system
+    );
+    const documents = Math.floor(available * this.documentRatio);
+    return { system, documents, history: available - documents };
+  }
+
+  /**
+   * Fit the conversation into the history budget. The last message is always
+   * kept; when the rest does not fit, the oldest turns are folded into a
+   * summary generated by the model
+   */
+  async fitHistory(
+    messages: ChatMessage[],
+    budget: number,
+    signal?: AbortSignal
+  ): Promise<FittedHistory> {
+    const total = messages.reduce(
+      (sum, message) => sum + estimateMessageTokens(message),
+      0
+    );
+    if (total <= budget || messages.length < 2) {
+      return { messages, folded: 0 };
+    }
+
+    const earlier = messages.slice(0, -1);
+    const last = messages[messages.length - 1];
+    const keys = prefixKeys(earlier);
+    // suffix[i]: tokens of earlier.slice(i)
+    const suffix = new Array<number>(earlier.length + 1).fill(0);
+    for (let i = earlier.length - 1; i >= 0; i--) {
+      suffix[i] = suffix[i + 1] + estimateMessageTokens(earlier[i]);
+    }
+    const available = budget - this.summaryTokens - estimateMessageTokens(last);
+
+    // Reuse an earlier fold as long as the turns after it still fit
+    for (let i = 1; i <= earlier.length; i++) {
+      const summary = summaryCache.get(keys[i]);
+      if (summary !== undefined && suffix[i] <= available) {
+        return {
+          messages: [...earlier.slice(i), last],
+          summary,
+          folded: i,
+        };
+      }
+    }
+
+    // Fold down to half the available budget so the next few turns fit
+    // without another summary call. Kept history starts at a user turn
+    let foldTo = earlier.length;
+    while (foldTo > 0 && suffix[foldTo - 1] <= available / 2) {
+      foldTo--;
+    }
+    foldTo = Math.max(foldTo, 1);
+    while (foldTo < earlier.length && earlier[foldTo].role !== "user") {
+      foldTo++;
+    }
+
+    // Extend the longest cached summary instead of starting over
+    let base = 0;
+    for (let i = foldTo; i >= 1; i--) {
+      if (summaryCache.has(keys[i])) {
+        base = i;
+        break;
+      }
+    }
+    const previous = base ? summaryCache.get(keys[base]) : undefined;
+
+    let summary = previous;
+    try {
+      summary = await this.summarize(
+        previous,
+        earlier.slice(base, foldTo),
+        signal
+      );
+      cacheSummary(keys[foldTo], summary);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(
+        `Failed to summarize ${foldTo - base} messages, dropping them:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    console.log(
+      `Context: folded ${foldTo} of ${messages.length} messages into the running summary`
+    );
+    if (suffix[foldTo] > available) {
+      console.warn(
+        "Context: the latest messages alone exceed the history budget"
+      );
+    }
+
+    return {
+      messages: [...earlier.slice(foldTo), last],
+      summary,
+      folded: foldTo,
+    };
+  }
+
+  /**
+   * Merge the previous summary and the newly folded messages into a new summary
+   */
+  private async summarize(
+    previous: string | undefined,
+    messages: ChatMessage[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const conversation = messages
+      .map((message) => {
+        const content =
+          message.content.length > MAX_FOLDED_MESSAGE_CHARS
+            ? `${message.content.slice(0, MAX_FOLDED_MESSAGE_CHARS)}…`
+            : message.content;
+        return `${message.role === "user" ? "User" : "Assistant"}: ${content}`;
+      })
+      .join("\n");
+
+    const prompt = `Summarize the conversation below so it can replace the original messages in later turns.
+Keep the user's goals and preferences, facts and decisions that were established, names and identifiers that came up, and open questions. Drop greetings and repetition.
+Write in the language of the conversation, at most ${Math.floor(
+      this.summaryTokens * 0.75
+    )} words, and output only the summary.
+
+Summary so far:
+${previous || "(none)"}
+
+New messages:
+${conversation}
+
+Updated summary:`;
+
+    const response = await this.model.invoke(prompt, { signal });
+    const summary = String(response.content)
+      .replace(/<think>[\s\S]*?<\/think>/g, "")
+      .trim();
+    if (!summary) {
+      throw new Error("Empty summary");
+    }
+    return truncateToTokens(summary, this.summaryTokens);
+  }
+}
@@ -1,4 +1,34 @@
+export { AgentModel } from "./agentModel";
+export type { AgentModelOptions } from "./agentModel";
 export { OllamaModel } from "./ollamaModel";
 export { DeepSeekModel } from "./deepSeekModel";
 export { RAGModel } from "./ragModel";
-export type { RAGModelOptions } from "./ragModel";
+export type { RAGModelOptions, RAGMode } from "./ragModel";
+export { registerProvider, listProviders, createChatModel } from "./providers";
+export type { ChatProviderFactory, ChatProviderOptions } from "./providers";
+export type { ChatMessage, StreamChunk, AgentOptions } from "./types";
+export {
+  ContextManager,
+  estimateTokens,
+  estimateMessageTokens,
+  fitDocuments,
+} from "./contextManager";
+export type {
+  ContextOptions,
+  ContextBudget,
+  FittedHistory,
+} from "./contextManager";
+export {
+  chatRequestSchema,
+  MAX_CHAT_MESSAGES,
+  MAX_CHAT_MESSAGE_CHARS,
+} from "./chatRequest";
+export type { ChatRequest } from "./chatRequest";
+export {
+  openAIChatRequestSchema,
+  resolveModelId,
+  listModelIds,
+  toOpenAIStream,
+  toOpenAICompletion,
+} from "./openaiCompat";
+export type { OpenAIChatRequest, CompletionInfo } from "./openaiCompat";
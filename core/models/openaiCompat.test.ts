@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+import { estimateMessageTokens, estimateTokens } from "./contextManager";
+import {
+  CompletionInfo,
+  toChatMessages,
+  toOpenAICompletion,
+  toOpenAIStream,
+} from "./openaiCompat";
+import { ChatMessage, StreamChunk } from "./types";
+
+vi.mock("@langchain/ollama", () => ({
+  ChatOllama: class {},
+  OllamaEmbeddings: class {},
+}));
+
+const info: CompletionInfo = {
+  id: "chatcmpl-test",
+  created: 1700000000,
+  model: "ollama",
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Agent SSE stream as produced by createStreamingResponse
+ */
+function agentStream(
+  chunks: StreamChunk[],
+  done = true
+): ReadableStream<Uint8Array> {
+  const events = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`);
+  if (done) events.push("data: [DONE]\n\n");
+  return new ReadableStream({
+    pull(controller) {
+      const event = events.shift();
+      if (event === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(event));
+      }
+    },
+  });
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>) {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((event) => event.slice("data: ".length))
+    .map((data) => (data === "[DONE]" ? data : JSON.parse(data)));
+}
+
+const toolCall: StreamChunk = {
+  type: "tool_call",
+  toolCallId: "call-1",
+  name: "get_weather",
+  args: { city: "Beijing" },
+};
+
+describe("toChatMessages", () => {
+  it("turns system messages into instructions and drops tool messages", () => {
+    expect(
+      toChatMessages([
+        { role: "system", content: "Be brief" },
+        { role: "developer", content: [{ type: "text", text: "Use English" }] },
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: null },
+        { role: "tool", content: "42" },
+        { role: "user", content: [{ type: "text", text: "Weather?" }] },
+      ])
+    ).toEqual({
+      messages: [
+        { role: "user", content: "Hi" },
+        { role: "user", content: "Weather?" },
+      ],
+      instructions: "Be brief\n\nUse English",
+    });
+  });
+});
+
+describe("toOpenAIStream", () => {
+  it("maps agent events to chat.completion.chunk events", async () => {
+    const events = await readEvents(
+      toOpenAIStream(
+        agentStream([
+          { type: "thinking", content: "Hmm" },
+          toolCall,
+          { type: "content", content: "Sunny" },
+        ]),
+        info
+      )
+    );
+
+    const base = {
+      id: "chatcmpl-test",
+      object: "chat.completion.chunk",
+      created: 1700000000,
+      model: "ollama",
+    };
+    const choice = (delta: object, finishReason: string | null = null) => ({
+      ...base,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+    expect(events).toEqual([
+      choice({ role: "assistant", content: "" }),
+      choice({ reasoning_content: "Hmm" }),
+      { ...choice({}), x_agent: toolCall },
+      choice({ content: "Sunny" }),
+      choice({}, "stop"),
+      "[DONE]",
+    ]);
+  });
+
+  it("ends with an error object and no [DONE] when the agent fails", async () => {
+    const events = await readEvents(
+      toOpenAIStream(
+        agentStream([
+          { type: "content", content: "Par" },
+          { type: "error", error: "Model unavailable" },
+        ]),
+        info
+      )
+    );
+    expect(events.slice(2)).toEqual([
+      {
+        error: {
+          message: "Model unavailable",
+          type: "server_error",
+          param: null,
+          code: null,
+        },
+      },
+    ]);
+  });
+});
+
+describe("toOpenAICompletion", () => {
+  it("collects the stream into a chat.completion with agent extras", async () => {
+    const promptMessages: ChatMessage[] = [
+      { role: "user", content: "Weather in Beijing?" },
+    ];
+    const completion = await toOpenAICompletion(
+      agentStream([
+        { type: "thinking", content: "Hmm" },
+        toolCall,
+        {
+          type: "tool_result",
+          toolCallId: "call-1",
+          name: "get_weather",
+          result: "Sunny",
+        },
+        { type: "content", content: "It is " },
+        { type: "content", content: "sunny" },
+      ]),
+      info,
+      promptMessages
+    );
+
+    const promptTokens = estimateMessageTokens(promptMessages[0]);
+    const completionTokens = estimateTokens("It is sunny");
+    expect(completion).toMatchObject({
+      id: "chatcmpl-test",
+      object: "chat.completion",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "It is sunny",
+            reasoning_content: "Hmm",
+          },
+          finish_reason: "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      x_agent: {
+        tool_steps: [{ id: "call-1", name: "get_weather", status: "success" }],
+        sources: [],
+        retrieval: [],
+      },
+    });
+  });
+
+  it("throws the agent's error", async () => {
+    await expect(
+      toOpenAICompletion(
+        agentStream([{ type: "error", error: "Model unavailable" }], false),
+        info,
+        []
+      )
+    ).rejects.toThrow("Model unavailable");
+  });
+});
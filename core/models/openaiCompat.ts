@@ -0,0 +1,329 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { applyStreamChunk } from "../conversations/turnRecorder";
+import type { ConversationMessage } from "../conversations/types";
+import type { RetrievalTrace } from "../rag/retriever";
+import { MAX_CHAT_MESSAGES, MAX_CHAT_MESSAGE_CHARS } from "./chatRequest";
+import { estimateMessageTokens, estimateTokens } from "./contextManager";
+import { listProviders, resolveProviderName } from "./providers";
+import { ChatMessage, StreamChunk } from "./types";
+
+/*
+ * OpenAI chat completions compatibility layer. Requests run through the
+ * regular RAGModel pipeline (retrieval, tools); its SSE events are mapped to
+ * the OpenAI format. Agent-specific events go into `x_agent` fields, which
+ * standard clients ignore:
+ * - streaming: chunks with an empty delta and `x_agent` set to the original
+ *   event (tool_call, tool_result, sources, retrieval)
+ * - non-streaming: `x_agent: { tool_steps, sources, retrieval }`
+ * Retrieval traces are only produced when retrieval debugging (RAG_DEBUG) is on
+ */
+
+const contentPartSchema = z
+  .object({ type: z.string(), text: z.string().optional() })
+  .passthrough()
+  .refine((part) => part.type === "text" && part.text !== undefined, {
+    message: "Only text content parts are supported",
+  });
+
+const openAIMessageSchema = z
+  .object({
+    role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+    content: z
+      .union([z.string(), z.array(contentPartSchema), z.null()])
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * Body of POST /v1/chat/completions. Unknown OpenAI parameters (top_p,
+ * max_tokens, ...) are accepted and ignored
+ */
+export const openAIChatRequestSchema = z.object({
+  model: z.string().min(1),
+  messages: z.array(openAIMessageSchema).min(1).max(MAX_CHAT_MESSAGES),
+  stream: z.boolean().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+export type OpenAIChatRequest = z.infer<typeof openAIChatRequestSchema>;
+
+/**
+ * Body of an OpenAI-style error response
+ */
+export function openAIError(
+  message: string,
+  type: string = "invalid_request_error",
+  code: string | null = null,
+  param: string | null = null
+) {
+  return { error: { message, type, param, code } };
+}
+
+/**
+ * Check the bearer token when OPENAI_COMPAT_API_KEY is set
+ */
+export function isAuthorized(req: Request): boolean {
+  const apiKey = process.env.OPENAI_COMPAT_API_KEY;
+  return !apiKey || req.headers.get("authorization") === `Bearer ${apiKey}`;
+}
+
+/**
+ * Model IDs exposed by /v1/models: one per registered provider, using the
+ * provider's default model. "<provider>/<model>" picks a specific model
+ */
+export function listModelIds(): string[] {
+  const defaultProvider = resolveProviderName();
+  return listProviders().sort((a, b) =>
+    a === defaultProvider ? -1 : b === defaultProvider ? 1 : 0
+  );
+}
+
+/**
+ * Resolve a model ID to a provider and model name, null when the provider is
+ * not registered
+ */
+export function resolveModelId(
+  id: string
+): { provider: string; model?: string } | null {
+  const separator = id.indexOf("/");
+  const provider = separator === -1 ? id : id.slice(0, separator);
+  const model = separator === -1 ? undefined : id.slice(separator + 1);
+  if (!listProviders().includes(provider) || model === "") {
+    return null;
+  }
+  return { provider, model };
+}
+
+/**
+ * Convert OpenAI messages to the agent's format. System and developer
+ * messages become extra instructions; tool messages are dropped because the
+ * agent runs its own tools
+ */
+export function toChatMessages(messages: OpenAIChatRequest["messages"]): {
+  messages: ChatMessage[];
+  instructions?: string;
+} {
+  const instructions: string[] = [];
+  const chatMessages: ChatMessage[] = [];
+
+  for (const message of messages) {
+    const content = Array.isArray(message.content)
+      ? message.content.map((part) => part.text).join("\n")
+      : message.content || "";
+    if (message.role === "system" || message.role === "developer") {
+      instructions.push(content);
+    } else if (
+      (message.role === "user" || message.role === "assistant") &&
+      content
+    ) {
+      chatMessages.push({ role: message.role, content });
+    }
+  }
+
+  return {
+    messages: chatMessages,
+    instructions: instructions.join("\n\n").trim() || undefined,
+  };
+}
+
+/**
+ * Check the converted messages against the limits of /api/chat
+ * @returns An error message, or null when the messages are usable
+ */
+export function validateChatMessages(messages: ChatMessage[]): string | null {
+  if (messages[messages.length - 1]?.role !== "user") {
+    return "The last message must be a non-empty user message";
+  }
+  if (
+    messages.some((message) => message.content.length > MAX_CHAT_MESSAGE_CHARS)
+  ) {
+    return `Messages must be at most ${MAX_CHAT_MESSAGE_CHARS} characters`;
+  }
+  return null;
+}
+
+/**
+ * Read the events of a createStreamingResponse stream until [DONE].
+ * Stopping early cancels the underlying stream
+ */
+export async function* readStreamChunks(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamChunk> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = done ? "" : events.pop() || "";
+
+      for (const event of events) {
+        if (!event.startsWith("data: ")) continue;
+        const data = event.slice(6);
+        if (data === "[DONE]") return;
+        let chunk: StreamChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        yield chunk;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Identity shared by every chunk of one completion
+ */
+export interface CompletionInfo {
+  id: string;
+  created: number; // Unix seconds
+  model: string;
+}
+
+/**
+ * Create the id and timestamp of a new completion
+ */
+export function createCompletionInfo(model: string): CompletionInfo {
+  return {
+    id: `chatcmpl-${randomUUID()}`,
+    created: Math.floor(Date.now() / 1000),
+    model,
+  };
+}
+
+/**
+ * Map an agent SSE stream to OpenAI chat.completion.chunk events
+ */
+export function toOpenAIStream(
+  stream: ReadableStream<Uint8Array>,
+  info: CompletionInfo
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks = readStreamChunks(stream);
+  const completionChunk = (
+    delta: Record<string, string>,
+    finishReason: string | null = null,
+    extra: Record<string, unknown> = {}
+  ) => ({
+    id: info.id,
+    object: "chat.completion.chunk",
+    created: info.created,
+    model: info.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...extra,
+  });
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          `data: ${JSON.stringify(
+            completionChunk({ role: "assistant", content: "" })
+          )}\n\n`
+        )
+      );
+    },
+    async pull(controller) {
+      const send = (data: unknown) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+      const { done, value: chunk } = await chunks.next();
+      if (done) {
+        send(completionChunk({}, "stop"));
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+        return;
+      }
+
+      if (chunk.type === "content") {
+        send(completionChunk({ content: chunk.content || "" }));
+      } else if (chunk.type === "thinking") {
+        // Same field as DeepSeek's reasoning models
+        send(completionChunk({ reasoning_content: chunk.content || "" }));
+      } else if (chunk.type === "error") {
+        send(openAIError(chunk.error || "Unknown error", "server_error"));
+        await chunks.return(undefined);
+        controller.close();
+      } else {
+        send(completionChunk({}, null, { x_agent: chunk }));
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Collect an agent SSE stream into an OpenAI chat.completion object
+ * @param promptMessages Messages sent by the client, for the usage estimate
+ * @throws When the agent reported an error
+ */
+export async function toOpenAICompletion(
+  stream: ReadableStream<Uint8Array>,
+  info: CompletionInfo,
+  promptMessages: ChatMessage[]
+) {
+  const message: ConversationMessage = {
+    role: "assistant",
+    content: "",
+    createdAt: new Date().toISOString(),
+  };
+  const retrieval: RetrievalTrace[] = [];
+  for await (const chunk of readStreamChunks(stream)) {
+    applyStreamChunk(message, chunk);
+    if (chunk.type === "retrieval" && chunk.trace) {
+      retrieval.push(chunk.trace);
+    }
+  }
+  if (message.error) {
+    throw new Error(message.error);
+  }
+
+  // Estimated with the context manager's heuristic, not a real tokenizer
+  const promptTokens = promptMessages.reduce(
+    (sum, item) => sum + estimateMessageTokens(item),
+    0
+  );
+  const completionTokens = estimateTokens(message.content);
+
+  return {
+    id: info.id,
+    object: "chat.completion",
+    created: info.created,
+    model: info.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: message.content,
+          ...(message.thinking ? { reasoning_content: message.thinking } : {}),
+        },
+        finish_reason: "stop",
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+    x_agent: {
+      tool_steps: message.toolSteps || [],
+      sources: message.sources || [],
+      retrieval,
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+/**
+ * Options passed to a chat provider when creating its model
+ */
+export interface ChatProviderOptions {
+  model?: string;
+  temperature?: number;
+  apiKey?: string;
+  baseUrl?: string;
+  contextWindow?: number; // Context size in tokens, passed to Ollama as num_ctx
+}
+
+/**
+ * A chat provider creates a LangChain chat model that supports tool binding
+ */
+export type ChatProviderFactory = (
+  options: ChatProviderOptions
+) => BaseChatModel;
+
+const providers = new Map<string, ChatProviderFactory>();
+
+/**
+ * Register a chat provider under a name, replacing any existing one
+ */
+export function registerProvider(
+  name: string,
+  factory: ChatProviderFactory
+): void {
+  providers.set(name, factory);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function listProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Resolve the provider name from the argument or the CHAT_PROVIDER env var
+ */
+export function resolveProviderName(name?: string): string {
+  return name || process.env.CHAT_PROVIDER || "ollama";
+}
+
+/**
+ * Create a chat model from a registered provider
+ */
+export function createChatModel(
+  name?: string,
+  options: ChatProviderOptions = {}
+): BaseChatModel {
+  const providerName = resolveProviderName(name);
+  const factory = providers.get(providerName);
+  if (!factory) {
+    throw new Error(
+      `Unknown chat provider "${providerName}". Available providers: ${listProviders().join(
+        ", "
+      )}`
+    );
+  }
+  return factory(options);
+}
+
+// Ollama 是本地运行的，不需要 API key
+registerProvider(
+  "ollama",
+  (options) =>
+    new ChatOllama({
+      model: options.model || process.env.OLLAMA_MODEL,
+      temperature: options.temperature ?? 0.7,
+      baseUrl: options.baseUrl || process.env.OLLAMA_BASE_URL,
+      // Without it Ollama silently truncates prompts at its own default
+      numCtx:
+        options.contextWindow ||
+        parseInt(process.env.CONTEXT_WINDOW_TOKENS || "") ||
+        undefined,
+    })
+);
+
+registerProvider("deepseek", (options) => {
+  const apiKey = options.apiKey || process.env.DEEP_SEEK_API_KEY;
+  if (!apiKey) {
+    throw new Error("DEEP_SEEK_API_KEY is required");
+  }
+
+  return new ChatOpenAI({
+    modelName: options.model || "deepseek-chat",
+    temperature: options.temperature ?? 0.7,
+    streaming: true,
+    openAIApiKey: apiKey,
+    configuration: {
+      baseURL: options.baseUrl || "https://api.deepseek.com/v1",
+    },
+  });
+});
+
+// Any endpoint that speaks the OpenAI chat completions API
+registerProvider("openai", (options) => {
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is required");
+  }
+
+  return new ChatOpenAI({
+    modelName: options.model || process.env.OPENAI_MODEL || "gpt-4o-mini",
+    temperature: options.temperature ?? 0.7,
+    streaming: true,
+    openAIApiKey: apiKey,
+    configuration: {
+      baseURL: options.baseUrl || process.env.OPENAI_BASE_URL,
+    },
+  });
+});
@@ -1,23 +1,46 @@
-import { OllamaModel, ChatMessage, StreamChunk } from "./ollamaModel";
-import { searchSimilarDocuments } from "../rag/vectorStore";
+import { AgentModel, AgentModelOptions } from "./agentModel";
+import { ChatMessage, StreamChunk } from "./types";
 import { EmbeddingModelType } from "../rag/embedding";
+import {
+  isRetrievalDebugEnabled,
+  retrieve,
+  RetrievalTrace,
+  RetrieverOptions,
+} from "../rag/retriever";
+import { getTools } from "../tools";
+import { toSourceDocuments, SourceDocument } from "../rag/sources";
+import { EmbeddingMismatchError } from "../rag/vectorStore";
+import { condenseQuery } from "../rag/queryRewriter";
+import { fitDocuments } from "./contextManager";
+
+/**
+ * RAG 模式
+ * - always: 每条用户消息都先检索，并把检索结果拼接进提示
+ * - tool: 注册 search_knowledge_base 工具，由模型决定何时检索、用什么查询
+ */
+export type RAGMode = "always" | "tool";
 
 /**
  * RAG 模型配置选项
+ * 继承 Agent 配置（provider、model、maxIterations 等），RAG 可叠加在任意 provider 上；
+ * 检索配置（集合、嵌入模型、相关度阈值、混合检索权重、重排序等）见 RetrieverOptions
+ * 其中 maxDistance / minScore 默认读取 RAG_MAX_DISTANCE / RAG_MIN_SCORE
  */
-export interface RAGModelOptions {
-  // 检索配置
-  collectionName?: string;
-  embeddingType?: EmbeddingModelType;
-  k?: number; // 检索的文档数量
-  chromaHost?: string;
-  chromaPort?: number;
-  embeddingModel?: string;
-  embeddingApiKey?: string;
-  embeddingBaseUrl?: string;
+export interface RAGModelOptions extends AgentModelOptions, RetrieverOptions {
   // RAG 模式
   enableRAG?: boolean; // 是否启用 RAG，默认 true
-  ragThreshold?: number; // RAG 触发阈值（消息长度），超过此长度才启用 RAG
+  ragMode?: RAGMode; // 默认 always，设置 RAG_MODE=tool 改为由模型按需检索
+  ragThreshold?: number; // RAG 触发阈值（消息长度），超过此长度才启用 RAG（仅 always 模式）
+  // 检索前结合对话历史把追问改写为独立查询（仅 always 模式，tool 模式由模型自行生成查询）
+  rewriteQuery?: boolean; // 默认 true，可通过 RAG_QUERY_REWRITE=false 关闭
+}
+
+/**
+ * 解析可选的数值型环境变量
+ */
+function parseOptionalFloat(value?: string): number | undefined {
+  const parsed = parseFloat(value || "");
+  return Number.isNaN(parsed) ? undefined : parsed;
 }
 
 /**
@@ -28,7 +51,10 @@ function buildRAGPrompt(
   retrievedDocs: Array<{ content: string; metadata: Record<string, any> }>
 ): string {
   if (retrievedDocs.length === 0) {
-    return query; // 如果没有检索到文档，直接返回原问题
+    // 没有通过相关度阈值的文档，让模型直接回答并说明知识库中没有匹配
+    return `知识库中没有找到与该问题相关的内容。请直接回答用户的问题，并在回答中说明未在知识库中找到相关资料。
+
+用户问题：${query}`;
   }
 
   const contextSections = retrievedDocs
@@ -51,20 +77,25 @@ ${contextSections}
  * RAG 增强的模型类
  * 将向量检索与 LLM 绑定，自动进行检索增强生成
  */
-export class RAGModel extends OllamaModel {
-  private ragOptions: Required<
-    Omit<
-      RAGModelOptions,
-      "embeddingApiKey" | "embeddingBaseUrl" | "embeddingModel"
-    >
-  > & {
-    embeddingApiKey?: string;
-    embeddingBaseUrl?: string;
-    embeddingModel?: string;
-  };
+export class RAGModel extends AgentModel {
+  private ragOptions: RetrieverOptions &
+    Required<
+      Pick<
+        RAGModelOptions,
+        | "collectionName"
+        | "embeddingType"
+        | "k"
+        | "chromaHost"
+        | "chromaPort"
+        | "enableRAG"
+        | "ragMode"
+        | "ragThreshold"
+        | "rewriteQuery"
+      >
+    >;
 
   constructor(options: RAGModelOptions = {}) {
-    super();
+    super(options);
 
     this.ragOptions = {
       collectionName:
@@ -82,9 +113,51 @@ export class RAGModel extends OllamaModel {
       embeddingModel: options.embeddingModel || process.env.EMBEDDING_MODEL,
       embeddingApiKey: options.embeddingApiKey,
       embeddingBaseUrl: options.embeddingBaseUrl,
+      maxDistance:
+        options.maxDistance ?? parseOptionalFloat(process.env.RAG_MAX_DISTANCE),
+      minScore:
+        options.minScore ?? parseOptionalFloat(process.env.RAG_MIN_SCORE),
+      retrievalMode: options.retrievalMode,
+      vectorWeight: options.vectorWeight,
+      keywordWeight: options.keywordWeight,
+      rrfK: options.rrfK,
+      minKeywordScore: options.minKeywordScore,
+      rerank: options.rerank,
+      rerankCandidates: options.rerankCandidates,
+      rerankModel: options.rerankModel,
+      debug: options.debug,
+      strategy: options.strategy,
+      multiQueryCount: options.multiQueryCount,
+      // multi-query / hyde 默认使用当前对话模型生成改写查询或假设回答
+      strategyModel: options.strategyModel || this.baseModel,
+      filter: options.filter,
       enableRAG: options.enableRAG !== false, // 默认启用
+      ragMode: options.ragMode || (process.env.RAG_MODE as RAGMode) || "always",
       ragThreshold: options.ragThreshold || 0, // 默认所有消息都启用 RAG
+      rewriteQuery:
+        options.rewriteQuery ?? process.env.RAG_QUERY_REWRITE !== "false",
     };
+
+    this.refreshTools();
+  }
+
+  /**
+   * 按 RAG 模式重新注册工具，tool 模式下额外注册知识库检索工具
+   */
+  private refreshTools(): void {
+    const useTool =
+      this.ragOptions.enableRAG && this.ragOptions.ragMode === "tool";
+
+    this.setTools(
+      getTools({
+        knowledgeBase: useTool
+          ? {
+              ...this.ragOptions,
+              maxTokens: this.getContextBudget().documents,
+            }
+          : false,
+      })
+    );
   }
 
   /**
@@ -95,6 +168,10 @@ export class RAGModel extends OllamaModel {
       console.log("RAG 未启用");
       return false;
     }
+    if (this.ragOptions.ragMode !== "always") {
+      console.log("RAG 工具模式，由模型决定是否检索");
+      return false;
+    }
     // 如果设置了阈值，只有消息长度超过阈值才使用 RAG
     if (this.ragOptions.ragThreshold > 0) {
       console.log(
@@ -110,8 +187,20 @@ export class RAGModel extends OllamaModel {
 
   /**
    * 执行检索并增强消息
+   * @param message 最后一条用户消息
+   * @param history 之前的对话消息，用于改写追问
+   * @param signal 取消信号，取消后停止改写和检索
+   * @returns 增强后的消息、提示中 [文档 N] 对应的引用来源，以及检索调试信息
    */
-  private async enhanceMessageWithRAG(message: string): Promise<string> {
+  private async enhanceMessageWithRAG(
+    message: string,
+    history: ChatMessage[] = [],
+    signal?: AbortSignal
+  ): Promise<{
+    content: string;
+    sources: SourceDocument[];
+    trace?: RetrievalTrace;
+  }> {
     try {
       console.log("开始 RAG 检索...", {
         query: message.substring(0, 50) + "...",
@@ -119,61 +208,85 @@ export class RAGModel extends OllamaModel {
         k: this.ragOptions.k,
         host: this.ragOptions.chromaHost,
         port: this.ragOptions.chromaPort,
+        retrievalMode: this.ragOptions.retrievalMode,
+        strategy: this.ragOptions.strategy,
+        filter: this.ragOptions.filter,
+        rerank:
+          typeof this.ragOptions.rerank === "object"
+            ? this.ragOptions.rerank.name
+            : this.ragOptions.rerank,
       });
 
-      // 检索相关文档
-      const retrievedDocs = await searchSimilarDocuments(
-        message,
-        this.ragOptions.k,
-        this.ragOptions.collectionName,
-        this.ragOptions.embeddingType,
-        {
-          host: this.ragOptions.chromaHost,
-          port: this.ragOptions.chromaPort,
-          apiKey: this.ragOptions.embeddingApiKey,
-          model: this.ragOptions.embeddingModel,
-          baseUrl: this.ragOptions.embeddingBaseUrl,
-        }
-      );
+      // 追问往往依赖上文（如「它怎么部署？」），先改写为独立查询再检索
+      const query = this.ragOptions.rewriteQuery
+        ? await condenseQuery(message, history, this.baseModel, signal)
+        : message;
+      if (query !== message) {
+        console.log("查询改写:", { original: message, rewritten: query });
+      }
+
+      // 检索相关文档（向量检索或混合检索，可选重排序）
+      const { documents: retrievedDocs, trace } = await retrieve(query, {
+        ...this.ragOptions,
+        signal,
+      });
+      if (query !== message) {
+        trace.originalQuery = message;
+      }
 
       console.log("检索完成，找到文档数:", retrievedDocs?.length || 0);
 
       // 验证检索结果
       if (!Array.isArray(retrievedDocs)) {
         console.warn("检索结果不是数组:", typeof retrievedDocs);
-        return message;
+        return { content: message, sources: [] };
       }
 
+      // 过滤无效文档，并按排名保留不超过文档预算的部分
+      const validDocs = fitDocuments(
+        retrievedDocs.filter((doc) => doc && doc.pageContent),
+        this.getContextBudget().documents
+      );
+
       // 转换为检索结果格式
-      const retrievedDocuments = retrievedDocs
-        .filter((doc) => doc && doc.pageContent) // 过滤无效文档
-        .map((doc) => ({
-          content: doc.pageContent,
-          metadata: doc.metadata || {},
-        }));
+      const retrievedDocuments = validDocs.map((doc) => ({
+        content: doc.pageContent,
+        metadata: doc.metadata || {},
+      }));
 
       console.log("有效文档数:", retrievedDocuments.length);
 
-      // 构建 RAG 提示
-      return buildRAGPrompt(message, retrievedDocuments);
+      // 构建 RAG 提示，编号与引用来源一致
+      return {
+        content: buildRAGPrompt(message, retrievedDocuments),
+        sources: toSourceDocuments(validDocs),
+        trace,
+      };
     } catch (error: any) {
+      // 嵌入模型与集合不一致时检索结果没有意义，直接报错而不是静默降级
+      // 请求已取消时同样直接抛出，不再继续调用模型
+      if (error instanceof EmbeddingMismatchError || signal?.aborted) {
+        throw error;
+      }
       console.error("RAG 检索失败:", {
         message: error.message,
         stack: error.stack,
         errorType: error.constructor.name,
       });
       console.warn("使用原始消息，不进行 RAG 增强");
-      return message; // 如果检索失败，返回原始消息
+      return { content: message, sources: [] }; // 如果检索失败，返回原始消息
     }
   }
 
   /**
-   * 流式聊天（RAG 增强版本）
+   * 在发送给模型前进行 RAG 增强（streamChat 和 createStreamingResponse 共用）
+   * 通过 onChunk 发送引用来源（sources）事件，开启检索调试时还发送检索调试信息（retrieval）
    */
-  async streamChat(
+  protected async prepareMessages(
     messages: ChatMessage[],
-    onChunk: (chunk: StreamChunk) => void
-  ): Promise<void> {
+    onChunk?: (chunk: StreamChunk) => void,
+    signal?: AbortSignal
+  ): Promise<ChatMessage[]> {
     // 获取最后一条用户消息
     const lastMessage = messages[messages.length - 1];
 
@@ -183,55 +296,26 @@ export class RAGModel extends OllamaModel {
       this.shouldUseRAG(lastMessage.content)
     ) {
       // 使用 RAG 增强最后一条消息
-      const enhancedContent = await this.enhanceMessageWithRAG(
-        lastMessage.content
+      const { content, sources, trace } = await this.enhanceMessageWithRAG(
+        lastMessage.content,
+        messages.slice(0, -1),
+        signal
       );
 
-      // 创建增强后的消息列表
-      const enhancedMessages: ChatMessage[] = [
-        ...messages.slice(0, -1),
-        { role: "user", content: enhancedContent },
-      ];
-
-      // 调用父类的 streamChat
-      return super.streamChat(enhancedMessages, onChunk);
-    } else {
-      // 不使用 RAG，直接调用父类方法
-      return super.streamChat(messages, onChunk);
-    }
-  }
-
-  /**
-   * 创建流式响应（RAG 增强版本）
-   */
-  async createStreamingResponse(
-    messages: ChatMessage[]
-  ): Promise<ReadableStream<Uint8Array>> {
-    // 获取最后一条用户消息
-    const lastMessage = messages[messages.length - 1];
-
-    if (
-      lastMessage &&
-      lastMessage.role === "user" &&
-      this.shouldUseRAG(lastMessage.content)
-    ) {
-      // 使用 RAG 增强最后一条消息
-      const enhancedContent = await this.enhanceMessageWithRAG(
-        lastMessage.content
-      );
+      // 检索调试信息包含候选文档片段和得分，只在调试时发送给客户端
+      if (trace && isRetrievalDebugEnabled(this.ragOptions.debug)) {
+        onChunk?.({ type: "retrieval", trace });
+      }
+      if (sources.length > 0) {
+        onChunk?.({ type: "sources", sources });
+      }
 
       // 创建增强后的消息列表
-      const enhancedMessages: ChatMessage[] = [
-        ...messages.slice(0, -1),
-        { role: "user", content: enhancedContent },
-      ];
-
-      // 调用父类的 createStreamingResponse
-      return super.createStreamingResponse(enhancedMessages);
-    } else {
-      // 不使用 RAG，直接调用父类方法
-      return super.createStreamingResponse(messages);
+      return [...messages.slice(0, -1), { role: "user", content }];
     }
+
+    // 不使用 RAG，直接使用原始消息
+    return messages;
   }
 
   /**
@@ -262,5 +346,59 @@ export class RAGModel extends OllamaModel {
     if (options.embeddingModel !== undefined) {
       this.ragOptions.embeddingModel = options.embeddingModel;
     }
+    if (options.ragMode !== undefined) {
+      this.ragOptions.ragMode = options.ragMode;
+    }
+    if (options.maxDistance !== undefined) {
+      this.ragOptions.maxDistance = options.maxDistance;
+    }
+    if (options.minScore !== undefined) {
+      this.ragOptions.minScore = options.minScore;
+    }
+    if (options.retrievalMode !== undefined) {
+      this.ragOptions.retrievalMode = options.retrievalMode;
+    }
+    if (options.vectorWeight !== undefined) {
+      this.ragOptions.vectorWeight = options.vectorWeight;
+    }
+    if (options.keywordWeight !== undefined) {
+      this.ragOptions.keywordWeight = options.keywordWeight;
+    }
+    if (options.rrfK !== undefined) {
+      this.ragOptions.rrfK = options.rrfK;
+    }
+    if (options.minKeywordScore !== undefined) {
+      this.ragOptions.minKeywordScore = options.minKeywordScore;
+    }
+    if (options.rerank !== undefined) {
+      this.ragOptions.rerank = options.rerank;
+    }
+    if (options.rerankCandidates !== undefined) {
+      this.ragOptions.rerankCandidates = options.rerankCandidates;
+    }
+    if (options.rerankModel !== undefined) {
+      this.ragOptions.rerankModel = options.rerankModel;
+    }
+    if (options.debug !== undefined) {
+      this.ragOptions.debug = options.debug;
+    }
+    if (options.strategy !== undefined) {
+      this.ragOptions.strategy = options.strategy;
+    }
+    if (options.multiQueryCount !== undefined) {
+      this.ragOptions.multiQueryCount = options.multiQueryCount;
+    }
+    if (options.strategyModel !== undefined) {
+      this.ragOptions.strategyModel = options.strategyModel;
+    }
+    if (options.filter !== undefined) {
+      this.ragOptions.filter = options.filter;
+    }
+    if (options.rewriteQuery !== undefined) {
+      this.ragOptions.rewriteQuery = options.rewriteQuery;
+    }
+
+    // 检索配置或模式变化后，重新注册知识库检索工具
+    this.refreshTools();
   }
 }
@@ -0,0 +1,34 @@
+import type { RetrievalTrace } from "../rag/retriever";
+import type { SourceDocument } from "../rag/sources";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface StreamChunk {
+  type:
+    | "content"
+    | "thinking"
+    | "tool_call"
+    | "tool_result"
+    | "sources"
+    | "retrieval"
+    | "error";
+  content?: string;
+  error?: string;
+  // Tool call lifecycle fields (tool_call / tool_result)
+  toolCallId?: string;
+  name?: string;
+  args?: Record<string, any>;
+  result?: string;
+  duration?: number; // Tool execution time in ms
+  // Retrieved documents backing the answer (sources)
+  sources?: SourceDocument[];
+  // Candidate scores from the retrieval stage, for debugging (retrieval)
+  trace?: RetrievalTrace;
+}
+
+export interface AgentOptions {
+  maxIterations?: number; // Maximum number of model calls in the agent loop
+}
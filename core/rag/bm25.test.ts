@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { BM25Index } from "./bm25";
+
+describe("BM25Index", () => {
+  const index = new BM25Index([
+    {
+      id: "tools",
+      content: "工具集成机制：Agent 通过工具调用外部能力",
+      metadata: { source: "tools.md" },
+    },
+    {
+      id: "intro",
+      content: "系统介绍：基于 Next.js 的对话系统",
+      metadata: { source: "intro.md" },
+    },
+    {
+      id: "deploy",
+      content: "部署指南：使用 Docker 部署 Next.js 应用",
+      metadata: { source: "deploy.md" },
+    },
+  ]);
+
+  it("按 BM25 得分降序返回命中的文档", () => {
+    const results = index.search("工具调用", 4);
+    expect(results[0].id).toBe("tools");
+    expect(results.every((result) => result.score > 0)).toBe(true);
+  });
+
+  it("只返回得分大于 0 的文档", () => {
+    expect(index.search("docker").map((result) => result.id)).toEqual([
+      "deploy",
+    ]);
+    expect(index.search("今天天气怎么样")).toEqual([]);
+  });
+
+  it("稀有词项得分更高", () => {
+    const results = index.search("next.js 部署");
+    expect(results[0].id).toBe("deploy");
+    expect(results.map((result) => result.id)).toContain("intro");
+  });
+
+  it("应用过滤函数并限制返回数量", () => {
+    expect(
+      index
+        .search("next.js", 4, (doc) => doc.metadata.source !== "deploy.md")
+        .map((result) => result.id)
+    ).toEqual(["intro"]);
+    expect(index.search("next.js", 1)).toHaveLength(1);
+  });
+
+  it("得分不超过查询的最高可能得分", () => {
+    const maxScore = index.maxScore("docker 部署");
+    const [result] = index.search("docker 部署");
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThan(maxScore);
+    expect(index.maxScore("the")).toBe(0);
+  });
+
+  it("空索引或空查询返回空数组", () => {
+    expect(new BM25Index([]).search("工具")).toEqual([]);
+    expect(index.search("the")).toEqual([]);
+    expect(index.size).toBe(3);
+  });
+});
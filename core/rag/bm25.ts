@@ -0,0 +1,136 @@
+import { tokenize } from "./tokenizer";
+
+/**
+ * 关键词索引中的文档
+ */
+export interface KeywordDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  searchText?: string; // 参与索引的文本，默认为 content（如加上章节标题和关键词）
+}
+
+/**
+ * 关键词检索结果
+ */
+export interface KeywordSearchResult extends KeywordDocument {
+  score: number; // BM25 得分，越大越相关
+}
+
+/**
+ * BM25 参数
+ */
+export interface BM25Options {
+  k1?: number; // 词频饱和度，默认 1.2
+  b?: number; // 文档长度归一化程度，默认 0.75
+}
+
+/**
+ * 内存中的 BM25 关键词索引
+ */
+export class BM25Index {
+  private documents: KeywordDocument[];
+  private termFrequencies: Array<Map<string, number>>;
+  private documentLengths: number[];
+  private documentFrequencies: Map<string, number>;
+  private averageLength: number;
+  private k1: number;
+  private b: number;
+
+  constructor(documents: KeywordDocument[], options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.documents = documents;
+    this.termFrequencies = [];
+    this.documentLengths = [];
+    this.documentFrequencies = new Map();
+
+    for (const doc of documents) {
+      const tokens = tokenize(doc.searchText ?? doc.content);
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      for (const term of Array.from(frequencies.keys())) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) || 0) + 1
+        );
+      }
+      this.termFrequencies.push(frequencies);
+      this.documentLengths.push(tokens.length);
+    }
+
+    const totalLength = this.documentLengths.reduce((sum, n) => sum + n, 0);
+    this.averageLength = documents.length ? totalLength / documents.length : 0;
+  }
+
+  /**
+   * 索引中的文档数量
+   */
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * 计算词项的逆文档频率
+   */
+  private idf(term: string): number {
+    const df = this.documentFrequencies.get(term) || 0;
+    const n = this.documents.length;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * 检索与查询最相关的文档
+   * @param query 查询文本
+   * @param k 返回的文档数量
+   * @param filter 文档过滤函数，返回 false 的文档不参与检索
+   * @returns 得分大于 0 的文档，按得分降序
+   */
+  search(
+    query: string,
+    k: number = 4,
+    filter?: (doc: KeywordDocument) => boolean
+  ): KeywordSearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const results: KeywordSearchResult[] = [];
+    this.documents.forEach((doc, index) => {
+      if (filter && !filter(doc)) return;
+      const frequencies = this.termFrequencies[index];
+      const lengthNorm =
+        1 -
+        this.b +
+        this.b * (this.documentLengths[index] / (this.averageLength || 1));
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+        score +=
+          this.idf(term) * ((tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm));
+      }
+
+      if (score > 0) {
+        results.push({ ...doc, score });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * 查询可能达到的最高得分（每个检索词的 idf × (k1 + 1) 之和），用于将得分归一化到 0 - 1
+   * @param query 查询文本
+   */
+  maxScore(query: string): number {
+    return Array.from(new Set(tokenize(query))).reduce(
+      (sum, term) => sum + this.idf(term) * (this.k1 + 1),
+      0
+    );
+  }
+}
@@ -1,14 +1,92 @@
+import { Embeddings } from "@langchain/core/embeddings";
 import { OpenAIEmbeddings } from "@langchain/openai";
 import { OllamaEmbeddings } from "@langchain/ollama";
+import type { DefaultEmbeddingFunction } from "@chroma-core/default-embed";
+import { getEmbeddingCache } from "./embeddingCache";
 
 /**
  * 嵌入模型类型
+ * - openai: OpenAI 嵌入 API
+ * - ollama: 本地 Ollama 服务
+ * - local: 在 Node 进程内运行的嵌入模型（@chroma-core/default-embed），无需外部服务
  */
-export type EmbeddingModelType = "openai" | "ollama";
+export type EmbeddingModelType = "openai" | "ollama" | "local";
+
+// local 嵌入模型默认使用 Chroma 默认嵌入模型
+const DEFAULT_LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+// 模型加载开销大（首次使用时下载），按模型名缓存
+const localEmbeddingFunctions = new Map<
+  string,
+  Promise<DefaultEmbeddingFunction>
+>();
+
+/**
+ * 进程内嵌入模型，封装 @chroma-core/default-embed 为 LangChain Embeddings
+ */
+export class LocalEmbeddings extends Embeddings {
+  private modelName: string;
+
+  constructor(fields: { model?: string } = {}) {
+    super({});
+    this.modelName = fields.model || DEFAULT_LOCAL_EMBEDDING_MODEL;
+  }
+
+  private getEmbeddingFunction(): Promise<DefaultEmbeddingFunction> {
+    let embeddingFunction = localEmbeddingFunctions.get(this.modelName);
+    if (!embeddingFunction) {
+      embeddingFunction = import("@chroma-core/default-embed").then(
+        ({ DefaultEmbeddingFunction }) =>
+          new DefaultEmbeddingFunction({ modelName: this.modelName })
+      );
+      // 加载失败时移除缓存，下次重试
+      embeddingFunction.catch(() =>
+        localEmbeddingFunctions.delete(this.modelName)
+      );
+      localEmbeddingFunctions.set(this.modelName, embeddingFunction);
+    }
+    return embeddingFunction;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const embeddingFunction = await this.getEmbeddingFunction();
+    return embeddingFunction.generate(texts);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+}
+
+/**
+ * 解析实际使用的嵌入模型名称（与 createEmbeddings 的默认值一致）
+ * @param type 嵌入模型类型
+ * @param model 指定的模型名称
+ * @returns 模型名称
+ */
+export function resolveEmbeddingModel(
+  type: EmbeddingModelType = "openai",
+  model?: string
+): string {
+  if (type === "local") {
+    // local 模式下 EMBEDDING_MODEL 为 Hugging Face 模型名
+    return (
+      model || process.env.EMBEDDING_MODEL || DEFAULT_LOCAL_EMBEDDING_MODEL
+    );
+  } else if (type === "ollama") {
+    // 使用更常见的嵌入模型，如果 nomic-embed-text 不可用，可以尝试 all-minilm
+    return model || process.env.EMBEDDING_MODEL || "nomic-embed-text";
+  }
+  return model || "text-embedding-3-small";
+}
 
 /**
  * 创建嵌入模型实例
- * @param type 嵌入模型类型：'openai' 或 'ollama'
+ * @param type 嵌入模型类型：'openai'、'ollama' 或 'local'
  * @param options 配置选项
  * @returns 嵌入模型实例
  */
@@ -19,13 +97,13 @@ export function createEmbeddings(
     model?: string;
     baseUrl?: string;
   }
-) {
-  if (type === "ollama") {
-    // 使用更常见的嵌入模型，如果 nomic-embed-text 不可用，可以尝试 all-minilm
-    const defaultModel =
-      options?.model || process.env.EMBEDDING_MODEL || "nomic-embed-text";
+): Embeddings {
+  const model = resolveEmbeddingModel(type, options?.model);
+  if (type === "local") {
+    return new LocalEmbeddings({ model });
+  } else if (type === "ollama") {
     return new OllamaEmbeddings({
-      model: defaultModel,
+      model,
       baseUrl:
         options?.baseUrl ||
         process.env.OLLAMA_BASE_URL ||
@@ -33,14 +111,14 @@ export function createEmbeddings(
     });
   } else {
     return new OpenAIEmbeddings({
-      model: options?.model || "text-embedding-3-small",
+      model,
       openAIApiKey: options?.apiKey,
     });
   }
 }
 
 /**
- * 将单个文本转换为向量
+ * 将单个文本转换为向量（优先读取嵌入缓存）
  * @param text 要转换的文本
  * @param type 嵌入模型类型
  * @param options 配置选项
@@ -55,12 +133,21 @@ export async function embedQuery(
     baseUrl?: string;
   }
 ): Promise<number[]> {
+  const cache = getEmbeddingCache();
+  const model = resolveEmbeddingModel(type, options?.model);
+  const [cached] = cache ? await cache.getMany(type, model, [text]) : [];
+  if (cached) {
+    return cached;
+  }
+
   const embeddings = createEmbeddings(type, options);
-  return await embeddings.embedQuery(text);
+  const embedding = await embeddings.embedQuery(text);
+  await cache?.setMany(type, model, [text], [embedding], "query");
+  return embedding;
 }
 
 /**
- * 将多个文本块转换为向量
+ * 将多个文本块转换为向量（只为未命中嵌入缓存的文本调用模型）
  * @param texts 文本块数组
  * @param type 嵌入模型类型
  * @param options 配置选项
@@ -75,9 +162,24 @@ export async function embedDocuments(
     baseUrl?: string;
   }
 ): Promise<number[][]> {
+  const cache = getEmbeddingCache();
+  const model = resolveEmbeddingModel(type, options?.model);
+  const results = cache
+    ? await cache.getMany(type, model, texts)
+    : new Array<number[] | undefined>(texts.length).fill(undefined);
+
+  const missing = texts.filter((_, index) => !results[index]);
+  if (missing.length === 0) {
+    return results as number[][];
+  }
+
   try {
     const embeddings = createEmbeddings(type, options);
-    return await embeddings.embedDocuments(texts);
+    const embedded = await embeddings.embedDocuments(missing);
+    await cache?.setMany(type, model, missing, embedded);
+
+    let next = 0;
+    return results.map((embedding) => embedding ?? embedded[next++]);
   } catch (error: any) {
     if (type === "ollama" && error?.message?.includes("not found")) {
       const modelName =
@@ -94,25 +196,143 @@ export async function embedDocuments(
 }
 
 /**
- * 将文本块数组转换为向量，并返回带元数据的文档向量
+ * 向量化进度
+ */
+export interface EmbeddingProgress {
+  completed: number; // 已完成的文本块数量
+  failed: number; // 失败的文本块数量
+  total: number;
+  batches: number; // 总批次数
+}
+
+/**
+ * 已向量化的文本块，index 为在输入数组中的下标
+ */
+export interface EmbeddedChunk {
+  text: string;
+  embedding: number[];
+  index: number;
+}
+
+/**
+ * 重试后仍失败的批次
+ */
+export interface EmbeddingBatchFailure {
+  batch: number; // 批次序号，从 0 开始
+  indexes: number[]; // 该批次文本块在输入数组中的下标
+  attempts: number;
+  error: Error;
+}
+
+/**
+ * 批量向量化配置
+ */
+export interface EmbedChunksOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  batchSize?: number; // 每批文本块数量，默认 EMBEDDING_BATCH_SIZE 或 64
+  concurrency?: number; // 同时进行的批次数，默认 EMBEDDING_CONCURRENCY 或 2
+  maxRetries?: number; // 每批最多重试次数，默认 3
+  retryDelay?: number; // 首次重试前等待的毫秒数，之后每次翻倍，默认 1000
+  onProgress?: (progress: EmbeddingProgress) => void;
+}
+
+/**
+ * 将文本块数组分批转换为向量
+ * 批次并发执行，失败的批次按指数退避重试；重试后仍失败的批次记录在 failures 中，
+ * 不影响其他批次的结果
  * @param chunks 文本块数组
  * @param type 嵌入模型类型，默认为 'openai'
  * @param options 配置选项
- * @returns 包含向量和元数据的对象数组
+ * @returns 成功的文本块向量（按输入顺序）和失败的批次
  */
 export async function embedChunks(
   chunks: string[],
   type: EmbeddingModelType = "openai",
-  options?: {
-    apiKey?: string;
-    model?: string;
-    baseUrl?: string;
+  options: EmbedChunksOptions = {}
+): Promise<{ chunks: EmbeddedChunk[]; failures: EmbeddingBatchFailure[] }> {
+  const {
+    batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || "64"),
+    concurrency = parseInt(process.env.EMBEDDING_CONCURRENCY || "2"),
+    maxRetries = 3,
+    retryDelay = 1000,
+    onProgress,
+  } = options;
+
+  const size = Math.max(1, batchSize || 1);
+  // EMBEDDING_CONCURRENCY 不是数字时 parseInt 返回 NaN，回退到默认的 2 个 worker
+  const workerCount = Math.max(1, concurrency || 2);
+  const batches: number[][] = [];
+  for (let start = 0; start < chunks.length; start += size) {
+    const end = Math.min(start + size, chunks.length);
+    batches.push(Array.from({ length: end - start }, (_, i) => start + i));
   }
-): Promise<Array<{ text: string; embedding: number[]; index: number }>> {
-  const embeddings = await embedDocuments(chunks, type, options);
-  return chunks.map((text, index) => ({
-    text,
-    embedding: embeddings[index],
-    index,
-  }));
+
+  const embeddings: Array<number[] | undefined> = new Array(chunks.length);
+  const failures: EmbeddingBatchFailure[] = [];
+  const progress: EmbeddingProgress = {
+    completed: 0,
+    failed: 0,
+    total: chunks.length,
+    batches: batches.length,
+  };
+
+  const runBatch = async (batch: number) => {
+    const indexes = batches[batch];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const embedded = await embedDocuments(
+          indexes.map((index) => chunks[index]),
+          type,
+          {
+            apiKey: options.apiKey,
+            model: options.model,
+            baseUrl: options.baseUrl,
+          }
+        );
+        indexes.forEach((index, i) => (embeddings[index] = embedded[i]));
+        progress.completed += indexes.length;
+        break;
+      } catch (error: any) {
+        if (attempt > maxRetries) {
+          failures.push({ batch, indexes, attempts: attempt, error });
+          progress.failed += indexes.length;
+          break;
+        }
+        const delay = retryDelay * 2 ** (attempt - 1);
+        console.log(
+          `第 ${batch + 1}/${
+            batches.length
+          } 批向量化失败，${delay}ms 后重试（${attempt}/${maxRetries}）: ${
+            error.message
+          }`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+    onProgress?.({ ...progress });
+  };
+
+  // 固定数量的 worker 依次领取批次
+  let nextBatch = 0;
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(workerCount, batches.length)) },
+    async () => {
+      while (nextBatch < batches.length) {
+        await runBatch(nextBatch++);
+      }
+    }
+  );
+  await Promise.all(workers);
+  // 批量向量化结束后一次性写入嵌入缓存
+  await getEmbeddingCache()?.flush();
+
+  return {
+    chunks: chunks.flatMap((text, index) => {
+      const embedding = embeddings[index];
+      return embedding ? [{ text, embedding, index }] : [];
+    }),
+    failures: failures.sort((a, b) => a.batch - b.batch),
+  };
 }
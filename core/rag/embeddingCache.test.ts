@@ -0,0 +1,151 @@
+import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EmbeddingCache, hashEmbeddingText } from "./embeddingCache";
+
+describe("hashEmbeddingText", () => {
+  it("规范化空白和全角字符后再计算哈希", () => {
+    expect(hashEmbeddingText("  工具  集成\n机制 ")).toBe(
+      hashEmbeddingText("工具 集成 机制")
+    );
+    expect(hashEmbeddingText("ＲＡＧ")).toBe(hashEmbeddingText("RAG"));
+    expect(hashEmbeddingText("RAG")).not.toBe(hashEmbeddingText("rag"));
+  });
+});
+
+describe("EmbeddingCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "embedding-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createCache(maxQueries?: number) {
+    // 延迟足够长，写入只在显式 flush 时发生
+    return new EmbeddingCache({
+      path: directory,
+      maxQueries,
+      flushDelay: 60000,
+    });
+  }
+
+  it("写入后可以读取，未命中的位置为 undefined", async () => {
+    const cache = createCache();
+    await cache.setMany("ollama", "bge-m3", ["a", "b"], [[1], [2]]);
+    expect(await cache.getMany("ollama", "bge-m3", ["b", "c", "a"])).toEqual([
+      [2],
+      undefined,
+      [1],
+    ]);
+    expect(await cache.getMany("openai", "bge-m3", ["a"])).toEqual([undefined]);
+    expect(cache.stats()).toEqual({ hits: 2, misses: 2, hitRate: 0.5 });
+  });
+
+  it("延迟写入磁盘，flush 后其他实例可以读取", async () => {
+    const cache = createCache();
+    await cache.setMany("ollama", "bge-m3", ["a"], [[1]]);
+    await cache.setMany("ollama", "bge-m3", ["b"], [[2]]);
+    expect(await readdir(directory)).toEqual([]);
+
+    await cache.flush();
+    expect(await createCache().getMany("ollama", "bge-m3", ["a", "b"])).toEqual(
+      [[1], [2]]
+    );
+  });
+
+  it("只读取时不写入文件，命中计数在显式 flush 时保存", async () => {
+    const cache = new EmbeddingCache({ path: directory, flushDelay: 1 });
+    await cache.setMany("ollama", "bge-m3", ["a"], [[1]]);
+    await cache.flush();
+    const [file] = await readdir(directory);
+    const { mtimeMs } = await stat(join(directory, file));
+
+    await cache.getMany("ollama", "bge-m3", ["a", "b"]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect((await stat(join(directory, file))).mtimeMs).toBe(mtimeMs);
+    expect((await cache.listModels())[0]).toMatchObject({ hits: 0, misses: 0 });
+
+    await cache.flush();
+    expect((await cache.listModels())[0]).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("合并其他进程写入的条目", async () => {
+    const first = createCache();
+    const second = createCache();
+    await first.getMany("ollama", "bge-m3", []);
+    await second.setMany("ollama", "bge-m3", ["b"], [[2]]);
+    await second.flush();
+    await first.setMany("ollama", "bge-m3", ["a"], [[1]]);
+    await first.flush();
+
+    expect(await createCache().getMany("ollama", "bge-m3", ["a", "b"])).toEqual(
+      [[1], [2]]
+    );
+  });
+
+  it("查询向量只保留最近使用的 maxQueries 条", async () => {
+    const cache = createCache(2);
+    await cache.setMany("ollama", "bge-m3", ["q1"], [[1]], "query");
+    await cache.setMany("ollama", "bge-m3", ["q2"], [[2]], "query");
+    // 读取 q1 后 q2 成为最久未使用的查询
+    await cache.getMany("ollama", "bge-m3", ["q1"]);
+    await cache.setMany("ollama", "bge-m3", ["q3"], [[3]], "query");
+    // 文档向量不受数量限制
+    await cache.setMany("ollama", "bge-m3", ["d1", "d2"], [[4], [5]]);
+
+    expect(
+      await cache.getMany("ollama", "bge-m3", ["q1", "q2", "q3", "d1", "d2"])
+    ).toEqual([[1], undefined, [3], [4], [5]]);
+
+    await cache.flush();
+    const [info] = await cache.listModels();
+    expect(info).toMatchObject({ entries: 2, queries: 2 });
+  });
+
+  it("累计各进程的命中次数，listModels 返回命中率", async () => {
+    const first = createCache();
+    await first.setMany("ollama", "bge-m3", ["a"], [[1]]);
+    await first.getMany("ollama", "bge-m3", ["a", "b"]);
+    await first.flush();
+
+    const second = createCache();
+    await second.getMany("ollama", "bge-m3", ["a", "a"]);
+    await second.flush();
+    await first.getMany("ollama", "bge-m3", ["c"]);
+    await first.flush();
+
+    const [info] = await createCache().listModels();
+    expect(info).toMatchObject({
+      provider: "ollama",
+      model: "bge-m3",
+      entries: 1,
+      hits: 3,
+      misses: 2,
+      hitRate: 0.6,
+    });
+  });
+
+  it("prune 删除不在保留列表中的模型", async () => {
+    const cache = createCache();
+    await cache.setMany("ollama", "bge-m3", ["a"], [[1]]);
+    await cache.setMany("local", "minilm", ["a"], [[2]]);
+    await cache.flush();
+
+    const dryRun = await cache.prune(
+      [{ provider: "ollama", model: "bge-m3" }],
+      true
+    );
+    expect(dryRun.map((info) => info.model)).toEqual(["minilm"]);
+    expect(await cache.listModels()).toHaveLength(2);
+
+    await cache.prune([{ provider: "ollama", model: "bge-m3" }]);
+    expect((await cache.listModels()).map((info) => info.model)).toEqual([
+      "bge-m3",
+    ]);
+  });
+});
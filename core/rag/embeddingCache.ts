@@ -0,0 +1,434 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+/**
+ * 缓存条目类型：文档向量长期保留，查询向量按最近使用保留有限数量
+ */
+export type EmbeddingCacheKind = "document" | "query";
+
+/**
+ * 缓存文件内容，每个 (provider, model) 一个文件
+ */
+interface CacheFile {
+  provider: string;
+  model: string;
+  entries: Record<string, number[]>; // 文本哈希 -> 向量（文档）
+  queries?: Record<string, number[]>; // 文本哈希 -> 向量（查询），按最近使用排序
+  hits?: number; // 所有进程累计的命中次数
+  misses?: number;
+}
+
+/**
+ * 已加载到内存的缓存文件
+ */
+interface CacheState {
+  entries: Map<string, number[]>;
+  queries: Map<string, number[]>; // 按最近使用排序，最早的在前
+  pendingHits: number; // 尚未写入文件的命中次数
+  pendingMisses: number;
+  changed: boolean; // 条目有尚未写入文件的修改，计数的变化不算在内
+  mtimeMs: number;
+}
+
+/**
+ * 命中率统计
+ */
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number; // 0 - 1，没有请求时为 0
+}
+
+/**
+ * 缓存中某个模型的概况
+ */
+export interface CachedModelInfo extends EmbeddingCacheStats {
+  provider: string;
+  model: string;
+  entries: number;
+  queries: number;
+  bytes: number;
+  file: string;
+}
+
+/**
+ * 嵌入缓存配置
+ */
+export interface EmbeddingCacheOptions {
+  path?: string; // 缓存目录，默认读取 EMBEDDING_CACHE_PATH，未设置时为 .data/embedding-cache
+  maxQueries?: number; // 每个模型保留的查询向量数量，默认读取 EMBEDDING_CACHE_MAX_QUERIES，未设置时为 1000
+  flushDelay?: number; // 修改后延迟写入磁盘的时间（毫秒），默认 5000
+}
+
+/**
+ * 计算命中率
+ */
+function toStats(hits: number, misses: number): EmbeddingCacheStats {
+  const total = hits + misses;
+  return { hits, misses, hitRate: total ? hits / total : 0 };
+}
+
+/**
+ * 规范化文本后计算哈希：NFKC、合并空白、去掉首尾空白
+ */
+export function hashEmbeddingText(text: string): string {
+  const normalized = text.normalize("NFKC").replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * 磁盘嵌入向量缓存，按 (provider, model, 规范化文本哈希) 索引
+ * 每个模型的向量保存为一个 JSON 文件，首次使用时加载到内存；
+ * 条目的修改先保存在内存中，延迟 flushDelay 后合并写入，批量任务结束时应调用 flush()；
+ * 命中计数随条目一起写入，只有计数变化时不会触发写入，由显式 flush() 保存
+ */
+export class EmbeddingCache {
+  private directory: string;
+  private maxQueries: number;
+  private flushDelay: number;
+  private states = new Map<string, CacheState>();
+  private models = new Map<string, { provider: string; model: string }>(); // 文件路径 -> 模型
+  private writeQueues = new Map<string, Promise<void>>(); // 按文件串行写入，避免并发批次互相覆盖
+  private flushTimers = new Map<string, NodeJS.Timeout>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.directory = resolve(
+      options.path ||
+        process.env.EMBEDDING_CACHE_PATH ||
+        ".data/embedding-cache"
+    );
+    this.maxQueries =
+      options.maxQueries ??
+      (parseInt(process.env.EMBEDDING_CACHE_MAX_QUERIES || "") || 1000);
+    this.flushDelay = options.flushDelay ?? 5000;
+  }
+
+  private getFilePath(provider: string, model: string): string {
+    return join(
+      this.directory,
+      `${encodeURIComponent(provider)}--${encodeURIComponent(model)}.json`
+    );
+  }
+
+  /**
+   * 读取缓存文件，不存在时返回空
+   */
+  private async readCacheFile(filePath: string): Promise<{
+    entries: Map<string, number[]>;
+    queries: Map<string, number[]>;
+    hits: number;
+    misses: number;
+    mtimeMs: number;
+  }> {
+    try {
+      const { mtimeMs } = await stat(filePath);
+      const data: CacheFile = JSON.parse(await readFile(filePath, "utf-8"));
+      return {
+        entries: new Map(Object.entries(data.entries)),
+        queries: new Map(Object.entries(data.queries || {})),
+        hits: data.hits || 0,
+        misses: data.misses || 0,
+        mtimeMs,
+      };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {
+          entries: new Map(),
+          queries: new Map(),
+          hits: 0,
+          misses: 0,
+          mtimeMs: 0,
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async load(provider: string, model: string): Promise<CacheState> {
+    const filePath = this.getFilePath(provider, model);
+    let state = this.states.get(filePath);
+    if (!state) {
+      const { entries, queries, mtimeMs } = await this.readCacheFile(filePath);
+      // 并发首次加载时以先完成的为准
+      state = this.states.get(filePath) || {
+        entries,
+        queries,
+        pendingHits: 0,
+        pendingMisses: 0,
+        changed: false,
+        mtimeMs,
+      };
+      this.states.set(filePath, state);
+      this.models.set(filePath, { provider, model });
+    }
+    return state;
+  }
+
+  /**
+   * 记录条目修改并安排延迟写入，延迟期间的修改合并为一次写入
+   */
+  private scheduleFlush(filePath: string, state: CacheState): void {
+    state.changed = true;
+    if (this.flushTimers.has(filePath)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.flushTimers.delete(filePath);
+      this.flushFile(filePath).catch((error) =>
+        console.error("嵌入缓存写入失败:", error)
+      );
+    }, this.flushDelay);
+    // 不阻止进程退出，批量任务结束时应显式调用 flush()
+    timer.unref();
+    this.flushTimers.set(filePath, timer);
+  }
+
+  /**
+   * 批量查询缓存，并累计命中率；命中的查询向量标记为最近使用
+   * 只读取不写入：计数和使用顺序在下次写入时保存，不单独触发写入
+   * @returns 与 texts 顺序一致，未命中的位置为 undefined
+   */
+  async getMany(
+    provider: string,
+    model: string,
+    texts: string[]
+  ): Promise<Array<number[] | undefined>> {
+    const state = await this.load(provider, model);
+    return texts.map((text) => {
+      const hash = hashEmbeddingText(text);
+      let embedding = state.entries.get(hash);
+      if (!embedding) {
+        embedding = state.queries.get(hash);
+        if (embedding) {
+          state.queries.delete(hash);
+          state.queries.set(hash, embedding);
+        }
+      }
+      if (embedding) {
+        this.hits++;
+        state.pendingHits++;
+      } else {
+        this.misses++;
+        state.pendingMisses++;
+      }
+      return embedding;
+    });
+  }
+
+  /**
+   * 写入缓存，稍后保存到磁盘
+   * @param kind 条目类型，查询向量超过 maxQueries 时淘汰最久未使用的
+   */
+  async setMany(
+    provider: string,
+    model: string,
+    texts: string[],
+    embeddings: number[][],
+    kind: EmbeddingCacheKind = "document"
+  ): Promise<void> {
+    const filePath = this.getFilePath(provider, model);
+    const state = await this.load(provider, model);
+    texts.forEach((text, index) => {
+      const hash = hashEmbeddingText(text);
+      if (kind === "query") {
+        if (state.entries.has(hash)) return;
+        state.queries.delete(hash);
+        state.queries.set(hash, embeddings[index]);
+      } else {
+        state.queries.delete(hash);
+        state.entries.set(hash, embeddings[index]);
+      }
+    });
+    this.evictQueries(state);
+    this.scheduleFlush(filePath, state);
+  }
+
+  /**
+   * 淘汰超出数量上限的查询向量（最久未使用的在前）
+   */
+  private evictQueries(state: CacheState): void {
+    const overflow = state.queries.size - this.maxQueries;
+    if (overflow <= 0) return;
+    const hashes = Array.from(state.queries.keys()).slice(0, overflow);
+    for (const hash of hashes) {
+      state.queries.delete(hash);
+    }
+  }
+
+  /**
+   * 立即写入所有尚未保存的修改和命中计数（批量向量化结束或进程退出前调用）
+   */
+  async flush(): Promise<void> {
+    for (const timer of Array.from(this.flushTimers.values())) {
+      clearTimeout(timer);
+    }
+    this.flushTimers.clear();
+    await Promise.all(
+      Array.from(this.states.keys()).map((filePath) =>
+        this.flushFile(filePath, true)
+      )
+    );
+  }
+
+  /**
+   * 将修改写入磁盘；文件被其他进程修改过时先合并，避免覆盖对方写入的条目和计数
+   * @param includeStats 条目没有修改时也写入尚未保存的命中计数
+   */
+  private async flushFile(
+    filePath: string,
+    includeStats: boolean = false
+  ): Promise<void> {
+    const previous = this.writeQueues.get(filePath) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const state = this.states.get(filePath);
+        const info = this.models.get(filePath);
+        if (!state || !info) {
+          return;
+        }
+        const pendingStats = state.pendingHits > 0 || state.pendingMisses > 0;
+        if (!state.changed && !(includeStats && pendingStats)) {
+          return;
+        }
+
+        const current = await this.readCacheFile(filePath);
+        if (current.mtimeMs !== state.mtimeMs) {
+          current.entries.forEach((embedding, hash) => {
+            if (!state.entries.has(hash)) state.entries.set(hash, embedding);
+          });
+          // 其他进程写入的查询视为较早使用，排在本进程的查询之前
+          const queries = new Map<string, number[]>();
+          current.queries.forEach((embedding, hash) => {
+            if (!state.entries.has(hash) && !state.queries.has(hash)) {
+              queries.set(hash, embedding);
+            }
+          });
+          state.queries.forEach((embedding, hash) =>
+            queries.set(hash, embedding)
+          );
+          state.queries = queries;
+          this.evictQueries(state);
+        }
+        // 计数累加到文件中的值上，多个进程的统计不会互相覆盖
+        const hits = current.hits + state.pendingHits;
+        const misses = current.misses + state.pendingMisses;
+        state.pendingHits = 0;
+        state.pendingMisses = 0;
+        state.changed = false;
+
+        const data: CacheFile = {
+          provider: info.provider,
+          model: info.model,
+          entries: Object.fromEntries(state.entries),
+          queries: Object.fromEntries(state.queries),
+          hits,
+          misses,
+        };
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(tempPath, JSON.stringify(data));
+        await rename(tempPath, filePath);
+        state.mtimeMs = (await stat(filePath)).mtimeMs;
+      });
+    this.writeQueues.set(filePath, next);
+    return next;
+  }
+
+  /**
+   * 本进程的命中率统计
+   */
+  stats(): EmbeddingCacheStats {
+    return toStats(this.hits, this.misses);
+  }
+
+  /**
+   * 清零命中率统计
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * 列出缓存中的模型，命中率为所有进程累计（截至最近一次写入）
+   */
+  async listModels(): Promise<CachedModelInfo[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const models: CachedModelInfo[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const filePath = join(this.directory, file);
+      const data: CacheFile = JSON.parse(await readFile(filePath, "utf-8"));
+      models.push({
+        provider: data.provider,
+        model: data.model,
+        entries: Object.keys(data.entries).length,
+        queries: Object.keys(data.queries || {}).length,
+        ...toStats(data.hits || 0, data.misses || 0),
+        bytes: (await stat(filePath)).size,
+        file: filePath,
+      });
+    }
+    return models;
+  }
+
+  /**
+   * 删除不在保留列表中的模型缓存
+   * @param keep 需要保留的 (provider, model)
+   * @param dryRun 只返回将被删除的模型，不删除文件
+   * @returns 被删除（或将被删除）的模型
+   */
+  async prune(
+    keep: Array<{ provider: string; model: string }>,
+    dryRun: boolean = false
+  ): Promise<CachedModelInfo[]> {
+    const keepFiles = new Set(
+      keep.map(({ provider, model }) => this.getFilePath(provider, model))
+    );
+    const removed = (await this.listModels()).filter(
+      (info) => !keepFiles.has(info.file)
+    );
+    if (!dryRun) {
+      for (const info of removed) {
+        await unlink(info.file);
+        clearTimeout(this.flushTimers.get(info.file));
+        this.flushTimers.delete(info.file);
+        this.states.delete(info.file);
+      }
+    }
+    return removed;
+  }
+}
+
+let sharedCache: EmbeddingCache | null = null;
+
+/**
+ * 获取进程内共享的嵌入缓存，EMBEDDING_CACHE=false 时返回 null
+ */
+export function getEmbeddingCache(): EmbeddingCache | null {
+  if (process.env.EMBEDDING_CACHE === "false") {
+    return null;
+  }
+  if (!sharedCache) {
+    sharedCache = new EmbeddingCache();
+  }
+  return sharedCache;
+}
@@ -0,0 +1,118 @@
+import { parseArgs } from "node:util";
+import { EmbeddingModelType, resolveEmbeddingModel } from "./embedding";
+import { EmbeddingCache } from "./embeddingCache";
+
+const USAGE = `用法: pnpm embedding-cache <命令> [选项]
+
+命令:
+  stats                         列出缓存中的模型、条目数、文件大小和累计命中率
+  prune                         删除不再使用的模型的缓存
+
+选项:
+  -k, --keep <provider:model>   prune 时保留的模型，可重复指定
+                                默认保留当前配置（EMBEDDING_TYPE / EMBEDDING_MODEL）
+      --dry-run                 只列出将被删除的模型
+  -h, --help                    显示帮助`;
+
+/**
+ * 格式化文件大小
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+(async function () {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      keep: { type: "string", short: "k", multiple: true },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = positionals[0];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const cache = new EmbeddingCache();
+
+  if (command === "stats") {
+    const models = await cache.listModels();
+    if (models.length === 0) {
+      console.log("嵌入缓存为空");
+      return;
+    }
+    console.table(
+      models.map(
+        ({
+          provider,
+          model,
+          entries,
+          queries,
+          bytes,
+          hits,
+          misses,
+          hitRate,
+        }) => ({
+          provider,
+          model,
+          entries,
+          queries,
+          size: formatBytes(bytes),
+          hits,
+          misses,
+          hitRate: hits + misses ? `${(hitRate * 100).toFixed(1)}%` : "-",
+        })
+      )
+    );
+    return;
+  }
+
+  if (command === "prune") {
+    const keep = values.keep?.length
+      ? values.keep.map((item) => {
+          const separator = item.indexOf(":");
+          if (separator <= 0) {
+            console.error(`--keep 格式应为 provider:model，收到: ${item}`);
+            process.exit(1);
+          }
+          return {
+            provider: item.slice(0, separator),
+            model: item.slice(separator + 1),
+          };
+        })
+      : (() => {
+          const provider =
+            (process.env.EMBEDDING_TYPE as EmbeddingModelType) || "ollama";
+          return [{ provider, model: resolveEmbeddingModel(provider) }];
+        })();
+
+    const dryRun = values["dry-run"] === true;
+    const removed = await cache.prune(keep, dryRun);
+    console.log(
+      `保留: ${keep.map((item) => `${item.provider}:${item.model}`).join(", ")}`
+    );
+    for (const info of removed) {
+      console.log(
+        `${dryRun ? "将删除" : "已删除"}: ${info.provider}:${info.model}（${
+          info.entries
+        } 条，${formatBytes(info.bytes)}）`
+      );
+    }
+    if (removed.length === 0) {
+      console.log("没有需要清理的缓存");
+    }
+    return;
+  }
+
+  console.error(`未知命令: ${command}\n\n${USAGE}`);
+  process.exit(1);
+})().catch((error) => {
+  console.error("嵌入缓存命令执行失败:", error.message || error);
+  process.exitCode = 1;
+});
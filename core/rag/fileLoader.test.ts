@@ -0,0 +1,157 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { detectFormat, listSupportedFiles, loadBuffer } from "./fileLoader";
+
+function load(content: string, fileName: string) {
+  return loadBuffer(Buffer.from(content), fileName);
+}
+
+describe("detectFormat", () => {
+  it("按扩展名判断格式，不区分大小写", () => {
+    expect(detectFormat("docs/guide.MD")).toBe("markdown");
+    expect(detectFormat("page.htm")).toBe("html");
+    expect(detectFormat("data.jsonl")).toBe("jsonl");
+    expect(detectFormat("image.png")).toBeUndefined();
+  });
+});
+
+describe("loadBuffer", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("Markdown 按标题拆分章节，忽略代码块中的 #", async () => {
+    const documents = await load(
+      [
+        "# 使用指南",
+        "简介",
+        "## 安装",
+        "```bash",
+        "# 安装依赖",
+        "npm install",
+        "```",
+        "## 部署 ##",
+        "运行 npm start",
+      ].join("\n"),
+      "guide.md"
+    );
+    expect(documents.map((doc) => doc.metadata.title)).toEqual([
+      "使用指南",
+      "安装",
+      "部署",
+    ]);
+    expect(documents[1].text).toBe("```bash\n# 安装依赖\nnpm install\n```");
+    expect(documents[2].metadata).toEqual({
+      source: "guide.md",
+      format: "markdown",
+      title: "部署",
+      documentTitle: "使用指南",
+    });
+  });
+
+  it("HTML 去掉脚本和标签，解码实体，标题取 <title>", async () => {
+    const [document] = await load(
+      "<html><head><title>A &amp; B</title></head><body>" +
+        "<script>alert(1)</script><h1>标题</h1><p>1 &lt; 2&#x21;</p></body></html>",
+      "page.html"
+    );
+    expect(document.metadata.title).toBe("A & B");
+    expect(document.text).toBe("标题\n\n1 < 2!");
+  });
+
+  it("JSONL 每行一个文档，其余标量字段作为元数据，跳过无法解析的行", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const documents = await load(
+      [
+        '{"text": "第一条", "title": "问答", "id": 7, "tags": ["a"]}',
+        "",
+        "not json",
+        '{"content": "第二条"}',
+      ].join("\n"),
+      "faq.jsonl"
+    );
+    expect(documents).toEqual([
+      {
+        text: "第一条",
+        metadata: {
+          source: "faq.jsonl",
+          format: "jsonl",
+          title: "问答",
+          id: 7,
+          line: 1,
+        },
+      },
+      {
+        text: "第二条",
+        metadata: {
+          source: "faq.jsonl",
+          format: "jsonl",
+          title: "faq #4",
+          line: 4,
+        },
+      },
+    ]);
+    expect(warn).toHaveBeenCalledWith("跳过无法解析的 JSONL 行: faq.jsonl:3");
+  });
+
+  it("带 sections 的 JSON 按章节拆分，其他 JSON 整体作为一个文档", async () => {
+    const sections = await load(
+      JSON.stringify({
+        title: "系统文档",
+        sections: [{ id: "tools", title: "工具", content: "工具说明" }],
+      }),
+      "system.json"
+    );
+    expect(sections).toEqual([
+      {
+        text: "工具说明",
+        metadata: {
+          source: "system.json",
+          format: "json",
+          title: "工具",
+          id: "tools",
+          keywords: "",
+          documentTitle: "系统文档",
+          version: "",
+          lastUpdated: "",
+        },
+      },
+    ]);
+
+    const [plain] = await load('{"a": 1}', "config.json");
+    expect(plain.text).toBe('{\n  "a": 1\n}');
+    expect(plain.metadata.title).toBe("config");
+  });
+
+  it("不支持的格式报错", async () => {
+    await expect(load("x", "image.png")).rejects.toThrow(
+      "不支持的文件格式: image.png"
+    );
+  });
+});
+
+describe("listSupportedFiles", () => {
+  let directory: string;
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("递归列出支持的文件，跳过隐藏文件和 node_modules", async () => {
+    directory = await mkdtemp(join(tmpdir(), "file-loader-"));
+    await mkdir(join(directory, "docs"));
+    await mkdir(join(directory, "node_modules"));
+    await writeFile(join(directory, "b.md"), "");
+    await writeFile(join(directory, "docs", "a.txt"), "");
+    await writeFile(join(directory, "docs", "image.png"), "");
+    await writeFile(join(directory, ".hidden.md"), "");
+    await writeFile(join(directory, "node_modules", "c.md"), "");
+
+    expect(await listSupportedFiles(directory)).toEqual([
+      join(directory, "b.md"),
+      join(directory, "docs", "a.txt"),
+    ]);
+  });
+});
@@ -1,4 +1,7 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, extname, join, relative } from "node:path";
 import { JsonOutputParser } from "@langchain/core/output_parsers";
+import { sectionsToDocuments, StructuredDocument } from "./sectionSplitter";
 
 // 创建解析器
 const parser = new JsonOutputParser();
@@ -9,4 +12,344 @@ async function parseJson(json: string): Promise<any> {
   return parsedData;
 }
 
+/**
+ * 支持的文档格式
+ */
+export type DocumentFormat =
+  | "markdown"
+  | "text"
+  | "html"
+  | "json"
+  | "jsonl"
+  | "pdf";
+
+/**
+ * 加载后的文档（分割前）
+ * metadata 中的 title 会在分割时加到每个文本块前面
+ */
+export interface LoadedDocument {
+  text: string;
+  metadata: Record<string, string | number>;
+}
+
+/**
+ * 文件扩展名与格式的对应关系
+ */
+export const SUPPORTED_EXTENSIONS: Record<string, DocumentFormat> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".html": "html",
+  ".htm": "html",
+  ".json": "json",
+  ".jsonl": "jsonl",
+  ".pdf": "pdf",
+};
+
+/**
+ * 根据文件扩展名判断文档格式
+ * @returns 文档格式，不支持的扩展名返回 undefined
+ */
+export function detectFormat(filePath: string): DocumentFormat | undefined {
+  return SUPPORTED_EXTENSIONS[extname(filePath).toLowerCase()];
+}
+
+/**
+ * 加载 Markdown：按标题拆分为多个章节，标题作为章节 title
+ * 代码块中的 # 不会被当作标题
+ */
+function loadMarkdown(
+  content: string,
+  metadata: LoadedDocument["metadata"]
+): LoadedDocument[] {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const documentTitle =
+    lines
+      .find((line) => /^#\s+/.test(line))
+      ?.replace(/^#\s+/, "")
+      .trim() || String(metadata.title);
+
+  const documents: LoadedDocument[] = [];
+  let title = documentTitle;
+  let buffer: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const text = buffer.join("\n").trim();
+    if (text) {
+      documents.push({
+        text,
+        metadata: { ...metadata, title, documentTitle },
+      });
+    }
+    buffer = [];
+  };
+
+  for (const line of lines) {
+    if (/^(```|~~~)/.test(line.trim())) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const heading = inCodeBlock ? null : line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      title = heading[1].replace(/\s+#+\s*$/, "").trim();
+    } else {
+      buffer.push(line);
+    }
+  }
+  flush();
+
+  return documents;
+}
+
+/**
+ * 解码常见的 HTML 实体
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 加载 HTML：去掉脚本、样式和标签，块级元素转为换行
+ */
+function loadHtml(
+  content: string,
+  metadata: LoadedDocument["metadata"]
+): LoadedDocument[] {
+  const titleMatch =
+    content.match(/<title[^>]*>([\s\S]*?)<\/title>/i) ||
+    content.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  const title = titleMatch
+    ? decodeEntities(titleMatch[1].replace(/<[^>]+>/g, "")).trim()
+    : String(metadata.title);
+
+  const text = decodeEntities(
+    content
+      .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(
+        /<\/?(p|div|section|article|li|ul|ol|tr|table|h[1-6]|pre|blockquote)[^>]*>/gi,
+        "\n"
+      )
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+
+  return text ? [{ text, metadata: { ...metadata, title } }] : [];
+}
+
+/**
+ * 加载 JSONL：每行一个 JSON 对象
+ * 正文取 text / content / pageContent 字段，其余标量字段作为元数据
+ */
+function loadJsonl(
+  content: string,
+  metadata: LoadedDocument["metadata"]
+): LoadedDocument[] {
+  const documents: LoadedDocument[] = [];
+  content.split(/\r?\n/).forEach((line, lineIndex) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      console.warn(
+        `跳过无法解析的 JSONL 行: ${metadata.source}:${lineIndex + 1}`
+      );
+      return;
+    }
+
+    const text =
+      typeof record === "object" && record !== null
+        ? record.text ?? record.content ?? record.pageContent
+        : record;
+    const recordMetadata: LoadedDocument["metadata"] = {};
+    if (typeof record === "object" && record !== null) {
+      for (const [key, value] of Object.entries(record)) {
+        if (
+          !["text", "content", "pageContent"].includes(key) &&
+          (typeof value === "string" || typeof value === "number")
+        ) {
+          recordMetadata[key] = value;
+        }
+      }
+    }
+
+    documents.push({
+      text: typeof text === "string" ? text : JSON.stringify(record),
+      metadata: {
+        ...metadata,
+        ...recordMetadata,
+        title: recordMetadata.title ?? `${metadata.title} #${lineIndex + 1}`,
+        line: lineIndex + 1,
+      },
+    });
+  });
+  return documents;
+}
+
+/**
+ * 加载 JSON：带 sections 的结构化文档按章节拆分，其余 JSON 整体作为一个文档
+ */
+async function loadJson(
+  content: string,
+  metadata: LoadedDocument["metadata"]
+): Promise<LoadedDocument[]> {
+  const data = await parseJson(content);
+  if (data && Array.isArray(data.sections)) {
+    return sectionsToDocuments(data as StructuredDocument).map((doc) => ({
+      text: doc.text,
+      metadata: { ...metadata, ...doc.metadata },
+    }));
+  }
+  return [{ text: JSON.stringify(data, null, 2), metadata }];
+}
+
+/**
+ * 加载 PDF：逐页提取文本层（不支持扫描件 OCR）
+ */
+async function loadPdf(
+  buffer: Buffer,
+  metadata: LoadedDocument["metadata"]
+): Promise<LoadedDocument[]> {
+  const { extractText, getDocumentProxy } = await import("unpdf");
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  const documents = text
+    .map((pageText, pageIndex) => ({
+      text: pageText.trim(),
+      metadata: { ...metadata, page: pageIndex + 1 },
+    }))
+    .filter((doc) => doc.text);
+  if (documents.length === 0) {
+    console.warn(`PDF 没有可提取的文本（可能是扫描件）: ${metadata.source}`);
+  }
+  return documents;
+}
+
+/**
+ * 计算文件的来源名称（相对路径），作为文本块 metadata.source
+ * @param filePath 文件路径
+ * @param rootDir 计算相对路径的根目录，默认当前工作目录
+ */
+export function getSourceName(
+  filePath: string,
+  rootDir: string = process.cwd()
+): string {
+  return relative(rootDir, filePath) || basename(filePath);
+}
+
+/**
+ * 从内存中的文件内容加载文档（用于上传的文件）
+ * @param buffer 文件内容
+ * @param fileName 文件名，用于判断格式和生成标题
+ * @param source 来源名称，默认为文件名
+ * @returns 加载后的文档数组
+ */
+export async function loadBuffer(
+  buffer: Buffer,
+  fileName: string,
+  source: string = basename(fileName)
+): Promise<LoadedDocument[]> {
+  const format = detectFormat(fileName);
+  if (!format) {
+    throw new Error(`不支持的文件格式: ${fileName}`);
+  }
+
+  const metadata: LoadedDocument["metadata"] = {
+    source,
+    format,
+    title: basename(fileName, extname(fileName)),
+  };
+
+  if (format === "pdf") {
+    return loadPdf(buffer, metadata);
+  }
+
+  const content = buffer.toString("utf-8");
+  switch (format) {
+    case "markdown":
+      return loadMarkdown(content, metadata);
+    case "html":
+      return loadHtml(content, metadata);
+    case "json":
+      return loadJson(content, metadata);
+    case "jsonl":
+      return loadJsonl(content, metadata);
+    default:
+      return content.trim() ? [{ text: content.trim(), metadata }] : [];
+  }
+}
+
+/**
+ * 加载单个文件
+ * @param filePath 文件路径
+ * @param rootDir 计算 source 相对路径的根目录，默认当前工作目录
+ * @returns 加载后的文档数组
+ */
+export async function loadFile(
+  filePath: string,
+  rootDir: string = process.cwd()
+): Promise<LoadedDocument[]> {
+  if (!detectFormat(filePath)) {
+    throw new Error(`不支持的文件格式: ${filePath}`);
+  }
+  return loadBuffer(
+    await readFile(filePath),
+    filePath,
+    getSourceName(filePath, rootDir)
+  );
+}
+
+/**
+ * 列出路径下所有支持格式的文件（目录会递归遍历，跳过隐藏文件和 node_modules）
+ * @param path 文件或目录路径
+ * @returns 文件路径数组（按路径排序）
+ */
+export async function listSupportedFiles(path: string): Promise<string[]> {
+  const info = await stat(path);
+  if (info.isFile()) {
+    return detectFormat(path) ? [path] : [];
+  }
+
+  const files: string[] = [];
+  const entries = await readdir(path, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") {
+      continue;
+    }
+    const entryPath = join(path, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listSupportedFiles(entryPath)));
+    } else if (detectFormat(entryPath)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
 export { parseJson };
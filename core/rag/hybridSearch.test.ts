@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  hybridSearch,
+  invalidateKeywordIndex,
+  reciprocalRankFusion,
+} from "./hybridSearch";
+import {
+  distanceToScore,
+  getAllDocumentsFromCollection,
+  passesThreshold,
+  ScoredDocument,
+  searchSimilarDocuments,
+} from "./vectorStore";
+
+// 关键词索引和向量检索都通过 vectorStore 读取集合，测试中不访问向量库和嵌入模型
+vi.mock("@langchain/ollama", () => ({ OllamaEmbeddings: class {} }));
+vi.mock("./vectorStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./vectorStore")>()),
+  getAllDocumentsFromCollection: vi.fn(),
+  searchSimilarDocuments: vi.fn(),
+}));
+
+const collection = [
+  { id: "tools", content: "工具集成机制：怎么注册和调用工具", metadata: {} },
+  { id: "intro", content: "系统介绍：今天的对话系统怎么使用", metadata: {} },
+  { id: "deploy", content: "部署指南：使用 Docker 部署", metadata: {} },
+  {
+    id: "cache",
+    content: "重复入库时跳过未变化的文本块",
+    metadata: { title: "嵌入缓存", keywords: "embedding,cache" },
+  },
+];
+
+/**
+ * 模拟向量检索：按给定距离返回文档，并像 searchSimilarDocuments 一样应用阈值
+ */
+function mockVectorSearch(distances: Record<string, number>) {
+  vi.mocked(searchSimilarDocuments).mockImplementation(
+    async (_query, k, _collectionName, _embeddingType, options) =>
+      collection
+        .filter((doc) => doc.id in distances)
+        .map(
+          (doc): ScoredDocument => ({
+            id: doc.id,
+            pageContent: doc.content,
+            metadata: {},
+            distance: distances[doc.id],
+            score: distanceToScore(distances[doc.id]),
+          })
+        )
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, k)
+        .filter((doc) => passesThreshold(doc, options))
+  );
+}
+
+describe("reciprocalRankFusion", () => {
+  it("按 weight / (rrfK + rank) 累加各路得分", () => {
+    const scores = reciprocalRankFusion(
+      [
+        { ids: ["a", "b"], weight: 1 },
+        { ids: ["b", "c"], weight: 1 },
+      ],
+      60
+    );
+    expect(scores.get("a")).toBeCloseTo(1 / 61);
+    expect(scores.get("b")).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(scores.get("c")).toBeCloseTo(1 / 62);
+  });
+
+  it("两路都命中的文档排在只命中一路的文档之前", () => {
+    const scores = reciprocalRankFusion([
+      { ids: ["a", "b", "c"], weight: 1 },
+      { ids: ["c", "d"], weight: 1 },
+    ]);
+    const ranked = Array.from(scores.entries())
+      .sort((x, y) => y[1] - x[1])
+      .map(([id]) => id);
+    expect(ranked[0]).toBe("c");
+  });
+
+  it("权重调整各路的影响，权重为 0 的一路不影响排序", () => {
+    const scores = reciprocalRankFusion([
+      { ids: ["a", "b"], weight: 0 },
+      { ids: ["b", "a"], weight: 2 },
+    ]);
+    expect(scores.get("b")).toBeGreaterThan(scores.get("a")!);
+    expect(scores.get("a")).toBeCloseTo(2 / 62);
+  });
+
+  it("没有排序结果时返回空映射", () => {
+    expect(reciprocalRankFusion([]).size).toBe(0);
+    expect(reciprocalRankFusion([{ ids: [], weight: 1 }]).size).toBe(0);
+  });
+});
+
+describe("hybridSearch", () => {
+  beforeEach(() => {
+    invalidateKeywordIndex();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.mocked(getAllDocumentsFromCollection).mockResolvedValue({
+      ids: collection.map((doc) => doc.id),
+      documents: collection.map((doc) => doc.content),
+      metadatas: collection.map((doc) => doc.metadata),
+      count: collection.length,
+    });
+  });
+
+  it("融合向量检索和关键词检索的结果", async () => {
+    mockVectorSearch({ deploy: 0.2, tools: 0.9 });
+    const documents = await hybridSearch("怎么部署", 4, "docs", "ollama");
+    expect(documents.map((doc) => doc.id)).toEqual([
+      "deploy",
+      "tools",
+      "intro",
+    ]);
+    expect(documents[0].keywordScore).toBeGreaterThan(0);
+    expect(documents[0].fusionScore).toBeGreaterThan(documents[1].fusionScore!);
+    // 仅关键词命中的文档没有向量距离
+    expect(documents[2].distance).toBe(Number.POSITIVE_INFINITY);
+    expect(documents[2].score).toBe(0);
+  });
+
+  it("设置阈值时不返回仅关键词弱命中的文档", async () => {
+    mockVectorSearch({ deploy: 0.2, tools: 0.9 });
+    const documents = await hybridSearch("怎么部署", 4, "docs", "ollama", {
+      maxDistance: 0.5,
+    });
+    expect(documents.map((doc) => doc.id)).toEqual(["deploy"]);
+  });
+
+  it("无关的查询在设置阈值时不返回任何文档", async () => {
+    mockVectorSearch({ tools: 1.2, intro: 1.3, deploy: 1.4 });
+    // 闲聊与文档有共同的词（如 "怎么"、"今天"），关键词检索会命中
+    const documents = await hybridSearch(
+      "今天天气怎么样",
+      4,
+      "docs",
+      "ollama",
+      { maxDistance: 0.8 }
+    );
+    expect(documents).toEqual([]);
+  });
+
+  it("设置阈值时返回关键词得分足够高的文档", async () => {
+    mockVectorSearch({ tools: 0.3, deploy: 1.2 });
+    const documents = await hybridSearch("Docker 部署", 4, "docs", "ollama", {
+      maxDistance: 0.5,
+    });
+    expect(documents.map((doc) => doc.id)).toEqual(["tools", "deploy"]);
+    expect(documents[1].distance).toBe(Number.POSITIVE_INFINITY);
+
+    const strict = await hybridSearch("Docker 部署", 4, "docs", "ollama", {
+      maxDistance: 0.5,
+      minKeywordScore: 0.99,
+    });
+    expect(strict.map((doc) => doc.id)).toEqual(["tools"]);
+  });
+
+  it("章节标题和关键词参与关键词检索，返回的内容不包含它们", async () => {
+    mockVectorSearch({});
+    const documents = await hybridSearch(
+      "embedding cache",
+      4,
+      "docs",
+      "ollama"
+    );
+    expect(documents.map((doc) => doc.id)).toEqual(["cache"]);
+    expect(documents[0].pageContent).toBe("重复入库时跳过未变化的文本块");
+  });
+});
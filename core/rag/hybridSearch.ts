@@ -0,0 +1,243 @@
+import { BM25Index, KeywordSearchResult } from "./bm25";
+import { EmbeddingModelType } from "./embedding";
+import {
+  matchesDocumentFilter,
+  matchesMetadataFilter,
+  RetrievalFilter,
+} from "./stores";
+import {
+  getAllDocumentsFromCollection,
+  passesThreshold,
+  searchSimilarDocuments,
+  RelevanceThreshold,
+  ScoredDocument,
+} from "./vectorStore";
+
+/**
+ * 混合检索配置
+ */
+export interface HybridSearchOptions extends RelevanceThreshold {
+  host?: string;
+  port?: number;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  vectorWeight?: number; // 向量检索结果在 RRF 中的权重，默认 1
+  keywordWeight?: number; // 关键词检索结果在 RRF 中的权重，默认 1
+  rrfK?: number; // RRF 平滑常数，默认 60
+  candidateK?: number; // 每路检索的候选数量，默认 k * 3
+  vectorQuery?: string; // 向量检索使用的文本，默认与查询相同（HyDE 时为假设回答）
+  // 设置相关度阈值时，仅关键词命中的文档需要达到的 BM25 得分（占该查询最高可能得分的比例，0 - 1）
+  // 默认读取 RAG_MIN_KEYWORD_SCORE，未设置时为 0.5
+  minKeywordScore?: number;
+  filter?: RetrievalFilter; // 元数据和内容过滤条件，同时作用于向量检索和关键词检索
+}
+
+/**
+ * 参与融合的一路排序结果
+ */
+export interface RankedList {
+  ids: string[]; // 按相关度降序排列的文档 ID
+  weight: number;
+}
+
+// 关键词索引缓存有效期（毫秒），入库后最迟在该时间后生效
+const KEYWORD_INDEX_TTL = 60 * 1000;
+
+const DEFAULT_MIN_KEYWORD_SCORE = 0.5;
+
+const keywordIndexCache = new Map<
+  string,
+  { index: BM25Index; createdAt: number }
+>();
+
+/**
+ * 倒数排名融合（Reciprocal Rank Fusion）
+ * score(d) = Σ weight_i / (rrfK + rank_i(d))，rank 从 1 开始
+ * @param rankings 各路排序结果
+ * @param rrfK 平滑常数
+ * @returns 文档 ID 到融合得分的映射
+ */
+export function reciprocalRankFusion(
+  rankings: RankedList[],
+  rrfK: number = 60
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const { ids, weight } of rankings) {
+    ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (rrfK + index + 1));
+    });
+  }
+  return scores;
+}
+
+/**
+ * 获取集合的关键词索引（带缓存）
+ */
+async function getKeywordIndex(
+  collectionName: string,
+  options: { host?: string; port?: number }
+): Promise<BM25Index> {
+  const cacheKey = `${options.host}:${options.port}/${collectionName}`;
+  const cached = keywordIndexCache.get(cacheKey);
+  if (cached && Date.now() - cached.createdAt < KEYWORD_INDEX_TTL) {
+    return cached.index;
+  }
+
+  const data = await getAllDocumentsFromCollection(collectionName, {
+    host: options.host,
+    port: options.port,
+    includeEmbeddings: false,
+  });
+  const index = new BM25Index(
+    data.ids.map((id, i) => {
+      const content = data.documents[i] || "";
+      const metadata = data.metadatas[i] || {};
+      return {
+        id,
+        content,
+        metadata,
+        // 章节标题和关键词（逗号拼接）一并参与索引
+        searchText: [metadata.title, metadata.keywords, content]
+          .filter(Boolean)
+          .join("\n"),
+      };
+    })
+  );
+  keywordIndexCache.set(cacheKey, { index, createdAt: Date.now() });
+  console.log(`关键词索引已构建: ${collectionName}，文档数 ${index.size}`);
+  return index;
+}
+
+/**
+ * 清除关键词索引缓存（文档入库或删除后调用）
+ * @param collectionName 集合名称，不传则清除全部
+ */
+export function invalidateKeywordIndex(collectionName?: string): void {
+  if (!collectionName) {
+    keywordIndexCache.clear();
+    return;
+  }
+  for (const key of Array.from(keywordIndexCache.keys())) {
+    if (key.endsWith(`/${collectionName}`)) {
+      keywordIndexCache.delete(key);
+    }
+  }
+}
+
+/**
+ * 是否设置了相关度阈值
+ */
+function hasThreshold(threshold: RelevanceThreshold): boolean {
+  return (
+    threshold.maxDistance !== undefined || threshold.minScore !== undefined
+  );
+}
+
+/**
+ * 解析关键词得分阈值，未设置或不合法时使用默认值
+ */
+function parseMinKeywordScore(value?: string): number {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) ? parsed : DEFAULT_MIN_KEYWORD_SCORE;
+}
+
+/**
+ * 混合检索：向量检索 + BM25 关键词检索，使用 RRF 融合排序
+ * 仅被关键词命中的文档没有向量距离（distance 为 Infinity，score 为 0）；
+ * 设置了相关度阈值时，向量命中的文档按距离阈值过滤，仅关键词命中的文档
+ * 需要 BM25 得分达到 minKeywordScore，避免无关的闲聊因常见词命中而返回文档
+ * @param query 查询文本
+ * @param k 返回的文档数量
+ * @param collectionName 集合名称
+ * @param embeddingType 嵌入模型类型
+ * @param options 配置选项
+ * @returns 融合排序后的文档数组
+ */
+export async function hybridSearch(
+  query: string,
+  k: number = 4,
+  collectionName: string = "rag-documents",
+  embeddingType: EmbeddingModelType = "openai",
+  options: HybridSearchOptions = {}
+): Promise<ScoredDocument[]> {
+  const {
+    vectorWeight = 1,
+    keywordWeight = 1,
+    rrfK = 60,
+    candidateK = k * 3,
+    minKeywordScore = parseMinKeywordScore(process.env.RAG_MIN_KEYWORD_SCORE),
+  } = options;
+
+  const [vectorResults, [keywordResults, keywordMaxScore]] = await Promise.all([
+    searchSimilarDocuments(
+      options.vectorQuery ?? query,
+      candidateK,
+      collectionName,
+      embeddingType,
+      options
+    ),
+    getKeywordIndex(collectionName, options).then(
+      (index) =>
+        [
+          index.search(
+            query,
+            candidateK,
+            options.filter &&
+              ((doc) =>
+                matchesMetadataFilter(doc.metadata, options.filter?.metadata) &&
+                matchesDocumentFilter(doc.content, options.filter?.document))
+          ),
+          index.maxScore(query),
+        ] as const
+    ),
+  ]);
+
+  const fusedScores = reciprocalRankFusion(
+    [
+      { ids: vectorResults.map((doc) => doc.id), weight: vectorWeight },
+      { ids: keywordResults.map((doc) => doc.id), weight: keywordWeight },
+    ],
+    rrfK
+  );
+
+  const vectorById = new Map(vectorResults.map((doc) => [doc.id, doc]));
+  const keywordById = new Map<string, KeywordSearchResult>(
+    keywordResults.map((doc) => [doc.id, doc])
+  );
+
+  const documents: ScoredDocument[] = Array.from(fusedScores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, fusionScore]) => {
+      const vectorDoc = vectorById.get(id);
+      const keywordDoc = keywordById.get(id);
+      return {
+        id,
+        pageContent: vectorDoc?.pageContent ?? keywordDoc?.content ?? "",
+        metadata: vectorDoc?.metadata ?? keywordDoc?.metadata ?? {},
+        distance: vectorDoc?.distance ?? Number.POSITIVE_INFINITY,
+        score: vectorDoc?.score ?? 0,
+        keywordScore: keywordDoc?.score,
+        fusionScore,
+      };
+    })
+    .filter((doc) => {
+      if (Number.isFinite(doc.distance) || !hasThreshold(options)) {
+        return passesThreshold(doc, options);
+      }
+      // 仅关键词命中的文档没有向量距离，按 BM25 得分判断相关度
+      return (
+        keywordMaxScore > 0 &&
+        (doc.keywordScore || 0) / keywordMaxScore >= minKeywordScore
+      );
+    })
+    .slice(0, k);
+
+  console.log("混合检索完成:", {
+    vector: vectorResults.length,
+    keyword: keywordResults.length,
+    fused: documents.length,
+  });
+
+  return documents;
+}
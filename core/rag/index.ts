@@ -1,83 +1,141 @@
-import { readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
-import { parseJson } from "./fileLoader";
-import { splitText } from "./textSplitter";
-import { embedChunks } from "./embedding";
-import {
-  addDocumentsToVectorStore,
-  getAllDocumentsFromCollection,
-} from "./vectorStore";
+import { parseArgs } from "node:util";
+import { EmbeddingModelType } from "./embedding";
+import { SUPPORTED_EXTENSIONS } from "./fileLoader";
+import { ingestPaths, IngestOptions, migrateCollection } from "./ingest";
 
-// 同步读取文件
-const promptPath = join(process.cwd(), "static", "documents", "index.json");
-const json = readFileSync(promptPath, "utf-8");
+const USAGE = `用法: pnpm ingest [选项] <文件或目录...>
+
+支持的格式: ${Object.keys(SUPPORTED_EXTENSIONS).join(" ")}
+未指定路径时导入 static/documents/index.json
+
+选项:
+  -c, --collection <名称>       集合名称，默认 CHROMA_COLLECTION 或 rag-documents
+      --chunk-size <字符数>      每个文本块的最大字符数，默认 500
+      --chunk-overlap <字符数>   文本块之间的重叠字符数，默认 100
+  -e, --embedding <类型>         嵌入模型类型 ollama | openai | local，默认 EMBEDDING_TYPE
+  -m, --embedding-model <名称>   嵌入模型名称，默认 EMBEDDING_MODEL
+      --batch-size <数量>        每批向量化的文本块数量，默认 EMBEDDING_BATCH_SIZE 或 64
+      --concurrency <数量>       同时向量化的批次数，默认 EMBEDDING_CONCURRENCY 或 2
+      --dry-run                 只打印分割结果，不写入向量库
+      --migrate                 用当前嵌入模型重新向量化整个集合（更换嵌入模型后使用，忽略路径）
+  -h, --help                    显示帮助`;
 
 (async function () {
-  // 第 1 步：加载文档
-  const parsedData = await parseJson(json);
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      collection: { type: "string", short: "c" },
+      "chunk-size": { type: "string" },
+      "chunk-overlap": { type: "string" },
+      embedding: { type: "string", short: "e" },
+      "embedding-model": { type: "string", short: "m" },
+      "batch-size": { type: "string" },
+      concurrency: { type: "string" },
+      "dry-run": { type: "boolean" },
+      migrate: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
 
-  // 将解析后的数据转换为文本（用于分割）
-  const text = JSON.stringify(parsedData, null, 2);
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
 
-  // 第 2 步：分割文本
-  const chunks = await splitText(text, 500, 100);
-  console.log(`分割后的文本块数量: ${chunks.length}`);
+  const embeddingType = values.embedding as EmbeddingModelType | undefined;
+  if (embeddingType && !["ollama", "openai", "local"].includes(embeddingType)) {
+    console.error(`不支持的嵌入模型类型: ${embeddingType}\n\n${USAGE}`);
+    process.exit(1);
+  }
 
-  // 第 3 步：嵌入向量化
-  const embeddingType = process.env.EMBEDDING_TYPE;
-  const ollamaModel = process.env.EMBEDDING_MODEL;
-  console.log("开始向量化文本块...");
+  const chunkSize = values["chunk-size"]
+    ? parseInt(values["chunk-size"])
+    : undefined;
+  const chunkOverlap = values["chunk-overlap"]
+    ? parseInt(values["chunk-overlap"])
+    : undefined;
+  if (Number.isNaN(chunkSize) || Number.isNaN(chunkOverlap)) {
+    console.error(`--chunk-size 和 --chunk-overlap 必须是整数\n\n${USAGE}`);
+    process.exit(1);
+  }
 
-  // Chroma 配置
-  const chromaHost = process.env.CHROMA_HOST;
-  const chromaPort = parseInt(process.env.CHROMA_PORT as string);
-  const collectionName = process.env.CHROMA_COLLECTION;
+  const batchSize = values["batch-size"]
+    ? parseInt(values["batch-size"])
+    : undefined;
+  const concurrency = values.concurrency
+    ? parseInt(values.concurrency)
+    : undefined;
+  if (
+    (batchSize !== undefined && !(batchSize > 0)) ||
+    (concurrency !== undefined && !(concurrency > 0))
+  ) {
+    console.error(`--batch-size 和 --concurrency 必须是正整数\n\n${USAGE}`);
+    process.exit(1);
+  }
 
-  try {
-    const embeddedChunks = await embedChunks(
-      chunks,
-      embeddingType as "openai" | "ollama",
-      {
-        model: embeddingType === "ollama" ? ollamaModel : undefined,
+  const paths = positionals.length
+    ? positionals
+    : [join(process.cwd(), "static", "documents", "index.json")];
+  const dryRun = values["dry-run"] === true;
+
+  const options: IngestOptions = {
+    collectionName: values.collection,
+    embeddingType,
+    embeddingModel: values["embedding-model"],
+    chunkSize,
+    chunkOverlap,
+    dryRun,
+    embeddingBatchSize: batchSize,
+    embeddingConcurrency: concurrency,
+    onEmbeddingProgress: ({ completed, failed, total }) => {
+      const line = `向量化进度: ${
+        completed + failed
+      }/${total}（失败 ${failed}）`;
+      // 终端中原地刷新，重定向到文件时逐行输出
+      if (process.stdout.isTTY) {
+        process.stdout.write(
+          `\r${line}${completed + failed === total ? "\n" : ""}`
+        );
+      } else {
+        console.log(line);
       }
-    );
-    console.log(`向量化完成！共生成 ${embeddedChunks.length} 个向量`);
+    },
+  };
 
-    // 第 4 步：创建向量存储并存入 Chroma
-    console.log("\n开始将向量存入 Chroma 数据库...");
-    console.log(`Chroma 连接信息: ${chromaHost}:${chromaPort}`);
-    console.log(`集合名称: ${collectionName}`);
+  try {
+    if (values.migrate) {
+      await migrateCollection(options);
+      return;
+    }
 
-    // 准备元数据
-    const metadatas = embeddedChunks.map((chunk) => ({
-      index: chunk.index,
-      textLength: chunk.text.length,
-      embeddingDimension: chunk.embedding.length,
-    }));
+    const { chunks, stats } = await ingestPaths(paths, options);
 
-    // 将文档添加到向量存储
-    const documentIds = await addDocumentsToVectorStore(
-      chunks,
-      metadatas,
-      collectionName,
-      embeddingType as "openai" | "ollama",
-      {
-        host: chromaHost,
-        port: chromaPort,
-        model: embeddingType === "ollama" ? ollamaModel : undefined,
+    if (dryRun) {
+      for (const chunk of chunks) {
+        console.log(`\n--- [${chunk.metadata.index}] ${chunk.metadata.source}`);
+        console.log(JSON.stringify(chunk.metadata));
+        console.log(chunk.text);
       }
-    );
+      console.log(`\n[dry-run] 共 ${chunks.length} 个文本块，未写入向量库`);
+    }
 
-    console.log(`\n向量存储完成！共存储 ${documentIds.length} 个文档`);
+    if (stats?.failed) {
+      console.error(
+        `\n${stats.failed} 个文本块向量化失败，其余文本块已写入。重新运行相同命令即可重试失败的部分`
+      );
+      process.exit(1);
+    }
   } catch (error: any) {
     console.error("\n处理失败:", error.message);
     if (
       error.message?.includes("ECONNREFUSED") ||
       error.message?.includes("connect")
     ) {
-      console.error(`\n无法连接到 Chroma 数据库 (${chromaHost}:${chromaPort})`);
+      console.error("\n无法连接到 Chroma 数据库");
       console.error("请确保 Chroma 服务正在运行:");
       console.error("docker run -p 8000:8000 chromadb/chroma");
+      console.error("或使用本地向量库: VECTOR_STORE=local pnpm ingest ...");
     }
     process.exit(1);
   }
@@ -0,0 +1,150 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { embedChunks } from "./embedding";
+import { indexChunks, IngestOptions } from "./ingest";
+import { TextChunk } from "./textSplitter";
+import { invalidateEmbeddingInfo } from "./vectorStore";
+
+// 使用本地向量库，向量由测试生成，不调用嵌入模型
+vi.mock("@langchain/ollama", () => ({ OllamaEmbeddings: class {} }));
+vi.mock("./embedding", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./embedding")>()),
+  embedChunks: vi.fn(),
+}));
+
+const options: IngestOptions = {
+  collectionName: "docs",
+  embeddingType: "ollama",
+  embeddingModel: "bge-m3",
+};
+
+function chunk(text: string, metadata: Record<string, any> = {}): TextChunk {
+  return { text, metadata: { source: "guide.md", ...metadata } };
+}
+
+/**
+ * 模拟向量化：为每个文本块生成固定向量，文本为 failText 的文本块向量化失败
+ */
+function mockEmbedChunks(failText?: string) {
+  vi.mocked(embedChunks).mockImplementation(async (texts) => {
+    const failed = texts
+      .map((text, index) => (text === failText ? index : -1))
+      .filter((index) => index >= 0);
+    return {
+      chunks: texts
+        .map((text, index) => ({ text, index, embedding: [1, text.length] }))
+        .filter(({ index }) => !failed.includes(index)),
+      failures:
+        failed.length > 0
+          ? [
+              {
+                batch: 0,
+                indexes: failed,
+                attempts: 3,
+                error: new Error("timeout"),
+              },
+            ]
+          : [],
+    };
+  });
+}
+
+describe("indexChunks", () => {
+  const env = { ...process.env };
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "ingest-"));
+    process.env.VECTOR_STORE = "local";
+    process.env.VECTOR_STORE_PATH = directory;
+    process.env.EMBEDDING_CACHE = "false";
+    invalidateEmbeddingInfo();
+    mockEmbedChunks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("首次入库时全部新增，重复入库时跳过未变化的文本块", async () => {
+    const chunks = [chunk("工具集成机制"), chunk("部署指南")];
+    const first = await indexChunks(["guide.md"], chunks, options);
+    expect(first.stats).toEqual({
+      added: 2,
+      updated: 0,
+      removed: 0,
+      unchanged: 0,
+      failed: 0,
+    });
+    expect(first.documentIds).toHaveLength(2);
+
+    vi.mocked(embedChunks).mockClear();
+    const second = await indexChunks(["guide.md"], chunks, options);
+    expect(second.stats).toMatchObject({ added: 0, unchanged: 2 });
+    expect(second.documentIds).toEqual([]);
+    expect(embedChunks).not.toHaveBeenCalled();
+  });
+
+  it("统计元数据变化、新增和来源中已删除的文本块", async () => {
+    await indexChunks(
+      ["guide.md"],
+      [chunk("工具集成机制", { title: "工具" }), chunk("部署指南")],
+      options
+    );
+
+    const { stats } = await indexChunks(
+      ["guide.md"],
+      [chunk("工具集成机制", { title: "工具调用" }), chunk("系统介绍")],
+      options
+    );
+    expect(stats).toEqual({
+      added: 1,
+      updated: 1,
+      removed: 1,
+      unchanged: 0,
+      failed: 0,
+    });
+
+    // 来源下没有文本块时清空该来源
+    const cleared = await indexChunks(["guide.md"], [], options);
+    expect(cleared.stats.removed).toBe(2);
+  });
+
+  it("向量化失败的文本块计入 failed，并保留该来源的旧文本块", async () => {
+    await indexChunks(
+      ["guide.md"],
+      [chunk("工具集成机制"), chunk("部署指南")],
+      options
+    );
+
+    mockEmbedChunks("系统介绍");
+    const { documentIds, stats } = await indexChunks(
+      ["guide.md"],
+      [chunk("工具集成机制"), chunk("系统介绍"), chunk("常见问题")],
+      options
+    );
+    expect(stats).toEqual({
+      added: 1,
+      updated: 0,
+      removed: 0,
+      unchanged: 1,
+      failed: 1,
+    });
+    expect(documentIds).toHaveLength(1);
+
+    // 重试成功后删除来源中已不存在的文本块
+    mockEmbedChunks();
+    const retry = await indexChunks(
+      ["guide.md"],
+      [chunk("工具集成机制"), chunk("系统介绍"), chunk("常见问题")],
+      options
+    );
+    expect(retry.stats).toMatchObject({ added: 1, removed: 1, unchanged: 2 });
+  });
+});
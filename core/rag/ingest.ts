@@ -0,0 +1,483 @@
+// 此文件只能在服务器端使用
+if (typeof window !== "undefined") {
+  throw new Error("ingest.ts can only be used on the server side");
+}
+
+import { basename, resolve } from "node:path";
+import {
+  embedChunks,
+  EmbeddingModelType,
+  EmbeddingProgress,
+  resolveEmbeddingModel,
+} from "./embedding";
+import { getEmbeddingCache } from "./embeddingCache";
+import {
+  getSourceName,
+  listSupportedFiles,
+  loadBuffer,
+  loadFile,
+} from "./fileLoader";
+import { invalidateKeywordIndex } from "./hybridSearch";
+import { resolveVectorStoreType } from "./stores";
+import { splitDocuments, TextChunk } from "./textSplitter";
+import {
+  addDocumentsToVectorStore,
+  assertEmbeddingCompatible,
+  CollectionEmbeddingInfo,
+  contentHash,
+  createDocumentIds,
+  deleteDocumentsFromVectorStore,
+  getAllDocumentsFromCollection,
+  getCollectionEmbeddingInfo,
+  getDocumentsBySource,
+  rebuildCollection,
+  setCollectionEmbeddingInfo,
+} from "./vectorStore";
+
+/**
+ * 入库配置
+ */
+export interface IngestOptions {
+  collectionName?: string;
+  embeddingType?: EmbeddingModelType;
+  embeddingModel?: string;
+  chromaHost?: string;
+  chromaPort?: number;
+  chunkSize?: number; // 默认 500
+  chunkOverlap?: number; // 默认 100
+  dryRun?: boolean; // 只加载和分割，不向量化、不写入向量库
+  embeddingBatchSize?: number; // 每批向量化的文本块数量，默认 EMBEDDING_BATCH_SIZE 或 64
+  embeddingConcurrency?: number; // 同时向量化的批次数，默认 EMBEDDING_CONCURRENCY 或 2
+  onEmbeddingProgress?: (progress: EmbeddingProgress) => void;
+}
+
+/**
+ * 增量入库统计
+ */
+export interface IngestStats {
+  added: number; // 新增的文本块
+  updated: number; // 内容不变但元数据变化的文本块
+  removed: number; // 来源中已不存在而被删除的文本块
+  unchanged: number; // 未变化、跳过向量化的文本块
+  failed: number; // 向量化失败、未写入的文本块（可重新入库重试）
+}
+
+/**
+ * 入库结果
+ */
+export interface IngestResult {
+  files: string[];
+  sources: string[];
+  chunks: TextChunk[];
+  documentIds: string[]; // 本次写入的文档 ID，dryRun 时为空
+  stats?: IngestStats; // dryRun 时为空
+}
+
+/**
+ * 加载文件或目录并分割为文本块
+ * @param paths 文件或目录路径
+ * @param chunkSize 每个文本块的最大字符数
+ * @param chunkOverlap 文本块之间的重叠字符数
+ * @returns 文件列表、来源名称和文本块
+ */
+export async function loadAndSplit(
+  paths: string[],
+  chunkSize: number = 500,
+  chunkOverlap: number = 100
+): Promise<{ files: string[]; sources: string[]; chunks: TextChunk[] }> {
+  const files: string[] = [];
+  for (const path of paths) {
+    files.push(...(await listSupportedFiles(resolve(path))));
+  }
+
+  const documents = [];
+  for (const file of files) {
+    const loaded = await loadFile(file);
+    console.log(`已加载: ${getSourceName(file)}（${loaded.length} 个文档）`);
+    documents.push(...loaded);
+  }
+
+  const chunks = await splitDocuments(documents, chunkSize, chunkOverlap);
+  return { files, sources: files.map((file) => getSourceName(file)), chunks };
+}
+
+// index 是本次入库中的全局序号，随一起入库的文件变化，不参与对比
+const VOLATILE_METADATA_FIELDS = new Set(["index"]);
+
+/**
+ * 判断已入库的元数据是否与新元数据一致（只比较新元数据中的字段）
+ */
+function isSameMetadata(
+  stored: Record<string, any> | undefined,
+  next: Record<string, any>
+): boolean {
+  return (
+    !!stored &&
+    Object.entries(next).every(
+      ([key, value]) =>
+        VOLATILE_METADATA_FIELDS.has(key) || stored[key] === value
+    )
+  );
+}
+
+/**
+ * 解析入库配置，未指定的项使用环境变量
+ */
+function resolveIngestOptions(options: IngestOptions) {
+  const {
+    collectionName = process.env.CHROMA_COLLECTION || "rag-documents",
+    embeddingType = (process.env.EMBEDDING_TYPE as EmbeddingModelType) ||
+      "ollama",
+    // EMBEDDING_MODEL 是 Ollama / 本地模型名，OpenAI 使用默认模型
+    embeddingModel = embeddingType === "openai"
+      ? undefined
+      : process.env.EMBEDDING_MODEL,
+    chromaHost = process.env.CHROMA_HOST || "localhost",
+    chromaPort = parseInt(process.env.CHROMA_PORT || "8000"),
+    chunkSize = 500,
+    chunkOverlap = 100,
+    dryRun = false,
+  } = options;
+  return {
+    collectionName,
+    embeddingType,
+    embeddingModel,
+    chromaHost,
+    chromaPort,
+    chunkSize,
+    chunkOverlap,
+    dryRun,
+  };
+}
+
+/**
+ * 将文本块增量写入向量库：对比 -> 向量化 -> 写入向量库
+ * 文档 ID 由来源和内容哈希生成，重复入库是幂等的：
+ * 未变化的文本块跳过，新增和变化的文本块 upsert，来源中已不存在的文本块被删除
+ * @param sources 本次入库的来源（来源下没有文本块时会清空该来源）
+ * @param chunks 文本块，metadata.source 须属于 sources
+ * @param options 配置选项，未指定的项使用环境变量
+ * @returns 写入的文档 ID 和统计
+ */
+export async function indexChunks(
+  sources: string[],
+  chunks: TextChunk[],
+  options: IngestOptions = {}
+): Promise<{ documentIds: string[]; stats: IngestStats }> {
+  const {
+    collectionName,
+    embeddingType,
+    embeddingModel,
+    chromaHost,
+    chromaPort,
+  } = resolveIngestOptions(options);
+
+  // 第 1 步：按来源与已入库的文本块对比
+  const texts = chunks.map((chunk) => chunk.text);
+  const metadatas = chunks.map((chunk) => ({
+    ...chunk.metadata,
+    contentHash: contentHash(chunk.text),
+  }));
+  const ids = createDocumentIds(texts, metadatas);
+  const connection = { host: chromaHost, port: chromaPort };
+
+  const stats: IngestStats = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    failed: 0,
+  };
+  const pending: number[] = []; // 需要向量化并写入的文本块下标
+  const updatedIndexes = new Set<number>(); // pending 中元数据变化（而非新增）的文本块
+  const staleIds = new Map<string, string[]>(); // 来源 -> 已不存在的文本块 ID
+
+  for (const source of sources) {
+    const stored = await getDocumentsBySource(
+      source,
+      collectionName,
+      connection
+    );
+    const storedById = new Map(
+      stored.ids.map((id, index) => [id, stored.metadatas[index]])
+    );
+
+    const currentIds = new Set<string>();
+    chunks.forEach((chunk, index) => {
+      if (chunk.metadata.source !== source) {
+        return;
+      }
+      currentIds.add(ids[index]);
+      const storedMetadata = storedById.get(ids[index]);
+      if (!storedMetadata) {
+        stats.added++;
+        pending.push(index);
+      } else if (isSameMetadata(storedMetadata, metadatas[index])) {
+        stats.unchanged++;
+      } else {
+        stats.updated++;
+        updatedIndexes.add(index);
+        pending.push(index);
+      }
+    });
+
+    staleIds.set(
+      source,
+      stored.ids.filter((id) => !currentIds.has(id))
+    );
+  }
+
+  // 第 2 步：分批向量化新增或变化的文本块并写入向量库（upsert）
+  const documentIds: string[] = [];
+  const failedSources = new Set<string>();
+  if (pending.length > 0) {
+    // 集合由其他嵌入模型构建时拒绝写入，避免同一集合中混入不同模型的向量
+    const provider = embeddingType;
+    const model = resolveEmbeddingModel(embeddingType, embeddingModel);
+    await assertEmbeddingCompatible(
+      collectionName,
+      { provider, model },
+      connection
+    );
+
+    console.log(`开始向量化 ${pending.length} 个文本块...`);
+    const cache = getEmbeddingCache();
+    const before = cache?.stats();
+    const { chunks: embeddedChunks, failures } = await embedChunks(
+      pending.map((index) => texts[index]),
+      embeddingType,
+      {
+        model: embeddingModel,
+        batchSize: options.embeddingBatchSize,
+        concurrency: options.embeddingConcurrency,
+        onProgress: options.onEmbeddingProgress,
+      }
+    );
+    console.log(`向量化完成！共生成 ${embeddedChunks.length} 个向量`);
+    if (cache && before) {
+      const after = cache.stats();
+      const hits = after.hits - before.hits;
+      const total = hits + after.misses - before.misses;
+      console.log(
+        `嵌入缓存命中: ${hits}/${total}（${(
+          (hits / (total || 1)) *
+          100
+        ).toFixed(1)}%）`
+      );
+    }
+
+    // 失败的文本块不计入新增 / 更新
+    for (const failure of failures) {
+      for (const index of failure.indexes.map((i) => pending[i])) {
+        failedSources.add(chunks[index].metadata.source);
+        if (updatedIndexes.has(index)) {
+          stats.updated--;
+        } else {
+          stats.added--;
+        }
+        stats.failed++;
+      }
+      console.error(
+        `第 ${failure.batch + 1} 批向量化失败（${failure.attempts} 次尝试，${
+          failure.indexes.length
+        } 个文本块）: ${failure.error.message}`
+      );
+    }
+
+    if (embeddedChunks.length > 0) {
+      const info: CollectionEmbeddingInfo = {
+        provider,
+        model,
+        dimension: embeddedChunks[0].embedding.length,
+      };
+      await assertEmbeddingCompatible(collectionName, info, connection);
+
+      console.log(
+        resolveVectorStoreType() === "local"
+          ? "\n开始将向量存入本地向量库..."
+          : `\n开始将向量存入 Chroma 数据库 (${chromaHost}:${chromaPort})...`
+      );
+      console.log(`集合名称: ${collectionName}`);
+
+      // 准备元数据：来源和章节信息 + 文本块信息
+      const pendingMetadatas = embeddedChunks.map((chunk) => ({
+        ...metadatas[pending[chunk.index]],
+        textLength: chunk.text.length,
+        embeddingDimension: chunk.embedding.length,
+      }));
+
+      documentIds.push(
+        ...(await addDocumentsToVectorStore(
+          embeddedChunks.map((chunk) => chunk.text),
+          pendingMetadatas,
+          collectionName,
+          embeddingType,
+          {
+            ...connection,
+            model: embeddingModel,
+            ids: embeddedChunks.map((chunk) => ids[pending[chunk.index]]),
+            embeddings: embeddedChunks.map((chunk) => chunk.embedding),
+          }
+        ))
+      );
+      await setCollectionEmbeddingInfo(collectionName, info, connection);
+    }
+  }
+
+  // 第 3 步：删除来源中已不存在的文本块
+  // 有文本块向量化失败的来源保留旧文本块，避免重试前该来源无法被检索
+  const removedIds = Array.from(staleIds.entries())
+    .filter(([source]) => !failedSources.has(source))
+    .flatMap(([, sourceIds]) => sourceIds);
+  stats.removed = removedIds.length;
+  if (removedIds.length > 0) {
+    await deleteDocumentsFromVectorStore(
+      removedIds,
+      collectionName,
+      embeddingType,
+      { ...connection, model: embeddingModel }
+    );
+  }
+
+  if (documentIds.length > 0 || removedIds.length > 0) {
+    invalidateKeywordIndex(collectionName);
+  }
+
+  console.log(
+    `\n入库完成！新增 ${stats.added}，更新 ${stats.updated}，删除 ${stats.removed}，未变化 ${stats.unchanged}` +
+      (stats.failed ? `，失败 ${stats.failed}` : "")
+  );
+  return { documentIds, stats };
+}
+
+/**
+ * 将文件或目录中的文档增量入库：加载 -> 分割 -> 增量写入
+ * @param paths 文件或目录路径
+ * @param options 配置选项，未指定的项使用环境变量
+ * @returns 入库结果
+ */
+export async function ingestPaths(
+  paths: string[],
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const { chunkSize, chunkOverlap, dryRun } = resolveIngestOptions(options);
+
+  const { files, sources, chunks } = await loadAndSplit(
+    paths,
+    chunkSize,
+    chunkOverlap
+  );
+  console.log(
+    `共 ${files.length} 个文件，分割后的文本块数量: ${chunks.length}`
+  );
+
+  if (dryRun) {
+    return { files, sources, chunks, documentIds: [] };
+  }
+
+  const { documentIds, stats } = await indexChunks(sources, chunks, options);
+  return { files, sources, chunks, documentIds, stats };
+}
+
+/**
+ * 将上传的文件增量入库，来源为 source（默认文件名），同名来源重复上传会覆盖旧内容
+ * @param buffer 文件内容
+ * @param fileName 文件名，用于判断格式
+ * @param options 配置选项，source 为来源名称
+ * @returns 入库结果
+ */
+export async function ingestBuffer(
+  buffer: Buffer,
+  fileName: string,
+  options: IngestOptions & { source?: string } = {}
+): Promise<IngestResult> {
+  const { chunkSize, chunkOverlap, dryRun } = resolveIngestOptions(options);
+  const source = options.source || basename(fileName);
+
+  const documents = await loadBuffer(buffer, fileName, source);
+  const chunks = await splitDocuments(documents, chunkSize, chunkOverlap);
+  console.log(`已加载: ${source}，分割后的文本块数量: ${chunks.length}`);
+
+  if (dryRun) {
+    return { files: [fileName], sources: [source], chunks, documentIds: [] };
+  }
+
+  const { documentIds, stats } = await indexChunks([source], chunks, options);
+  return { files: [fileName], sources: [source], chunks, documentIds, stats };
+}
+
+/**
+ * 用当前嵌入模型重新向量化整个集合（更换 EMBEDDING_TYPE / EMBEDDING_MODEL 后使用）
+ * 先向量化全部文本块，全部成功后才删除并重建集合；有批次失败时集合保持不变
+ * @param options 配置选项，未指定的项使用环境变量
+ * @returns 迁移前后的嵌入模型和文本块数量
+ */
+export async function migrateCollection(options: IngestOptions = {}): Promise<{
+  from: Partial<CollectionEmbeddingInfo> | null;
+  to?: CollectionEmbeddingInfo;
+  count: number;
+}> {
+  const {
+    collectionName,
+    embeddingType,
+    embeddingModel,
+    chromaHost,
+    chromaPort,
+  } = resolveIngestOptions(options);
+  const connection = { host: chromaHost, port: chromaPort };
+
+  const from = await getCollectionEmbeddingInfo(collectionName, connection);
+  const { ids, documents, metadatas } = await getAllDocumentsFromCollection(
+    collectionName,
+    { ...connection, includeEmbeddings: false }
+  );
+  if (ids.length === 0) {
+    console.log(`集合 "${collectionName}" 为空，无需迁移`);
+    return { from, count: 0 };
+  }
+
+  const model = resolveEmbeddingModel(embeddingType, embeddingModel);
+  console.log(
+    `开始迁移集合 "${collectionName}"：重新向量化 ${ids.length} 个文本块（${embeddingType}:${model}）...`
+  );
+  const { chunks: embeddedChunks, failures } = await embedChunks(
+    documents,
+    embeddingType,
+    {
+      model: embeddingModel,
+      batchSize: options.embeddingBatchSize,
+      concurrency: options.embeddingConcurrency,
+      onProgress: options.onEmbeddingProgress,
+    }
+  );
+  if (failures.length > 0) {
+    const failed = failures.reduce((sum, f) => sum + f.indexes.length, 0);
+    throw new Error(
+      `迁移中止：${failed} 个文本块向量化失败（${failures[0].error.message}），集合未修改`
+    );
+  }
+
+  const to: CollectionEmbeddingInfo = {
+    provider: embeddingType,
+    model,
+    dimension: embeddedChunks[0].embedding.length,
+  };
+  await rebuildCollection(
+    collectionName,
+    embeddedChunks.map((chunk) => ({
+      id: ids[chunk.index],
+      content: chunk.text,
+      metadata: {
+        ...metadatas[chunk.index],
+        embeddingDimension: chunk.embedding.length,
+      },
+      embedding: chunk.embedding,
+    })),
+    to,
+    connection
+  );
+  invalidateKeywordIndex(collectionName);
+
+  console.log(`\n迁移完成！共重新向量化 ${embeddedChunks.length} 个文本块`);
+  return { from, to, count: embeddedChunks.length };
+}
@@ -0,0 +1,160 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+/**
+ * 对话历史中的一条消息
+ */
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// 改写时参考的最近消息条数及每条消息的最大字符数
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_HISTORY_CHARS = 500;
+// 改写结果超过该长度时视为模型输出了回答而不是查询
+const MAX_QUERY_CHARS = 300;
+
+/**
+ * 清理模型输出：去掉思考内容、前缀和引号，只保留第一行
+ */
+function cleanRewrittenQuery(output: string): string {
+  const line =
+    output
+      .replace(/<think>[\s\S]*?<\/think>/g, "")
+      .split("\n")
+      .map((item) => item.trim())
+      .find(Boolean) || "";
+  return line
+    .replace(/^(独立查询|检索查询|查询|改写后的问题|问题)\s*[:：]\s*/, "")
+    .replace(/^["'“”「]+|["'“”」]+$/g, "")
+    .trim();
+}
+
+/**
+ * 结合对话历史，将最后一轮提问改写为可独立检索的查询
+ * 例如在讨论 Chroma 之后追问「它怎么部署？」，改写为「Chroma 如何部署」
+ * @param query 最后一条用户消息
+ * @param history 之前的对话消息（不含最后一条）
+ * @param model 用于改写的对话模型
+ * @param signal 取消信号，取消时抛出错误而不是返回原始查询
+ * @returns 改写后的查询；没有历史、改写失败或结果不可用时返回原始查询
+ */
+export async function condenseQuery(
+  query: string,
+  history: HistoryMessage[],
+  model: BaseChatModel,
+  signal?: AbortSignal
+): Promise<string> {
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  if (recent.length === 0) {
+    return query;
+  }
+
+  const conversation = recent
+    .map(
+      (message) =>
+        `${message.role === "user" ? "用户" : "助手"}：${message.content.slice(
+          0,
+          MAX_HISTORY_CHARS
+        )}`
+    )
+    .join("\n");
+
+  const prompt = `根据对话历史，把用户的最后一个问题改写为一个不依赖上下文、可直接用于检索知识库的独立查询。
+要求：补全代词和省略的主语（如「它」「这个」指代的对象），保留专有名词和原问题的语言，不要回答问题。
+只输出改写后的查询，不要输出其他内容。如果问题本身已经完整，原样输出。
+
+对话历史：
+${conversation}
+
+最后一个问题：${query}
+
+独立查询：`;
+
+  try {
+    const response = await model.invoke(prompt, { signal });
+    const rewritten = cleanRewrittenQuery(String(response.content));
+    if (!rewritten || rewritten.length > MAX_QUERY_CHARS) {
+      return query;
+    }
+    return rewritten;
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.warn("查询改写失败，使用原始查询:", error.message);
+    return query;
+  }
+}
+
+/**
+ * 由 LLM 生成多个表述不同的检索查询（multi-query 检索策略）
+ * @param query 原始查询
+ * @param count 生成的查询数量
+ * @param model 对话模型
+ * @param signal 取消信号
+ * @returns 改写后的查询（不含原始查询，已去重），失败时返回空数组
+ */
+export async function generateQueryVariants(
+  query: string,
+  count: number,
+  model: BaseChatModel,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const prompt = `为了在知识库中检索到更多相关内容，请把下面的问题换 ${count} 种不同的说法，
+可以使用同义词、换一个角度提问或拆出问题中的关键概念，保留专有名词和原问题的语言。
+每行输出一个查询，不要编号，不要输出其他内容。
+
+问题：${query}
+
+查询：`;
+
+  try {
+    const response = await model.invoke(prompt, { signal });
+    const variants = String(response.content)
+      .replace(/<think>[\s\S]*?<\/think>/g, "")
+      .split("\n")
+      .map((line) =>
+        cleanRewrittenQuery(line.replace(/^\s*(\d+[.、)]|[-*•])\s*/, ""))
+      )
+      .filter(
+        (line) => line && line.length <= MAX_QUERY_CHARS && line !== query
+      );
+    return Array.from(new Set(variants)).slice(0, count);
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.warn("生成改写查询失败，只使用原始查询:", error.message);
+    return [];
+  }
+}
+
+/**
+ * 由 LLM 生成一段假设的回答（HyDE 检索策略），用它的向量代替问题的向量检索
+ * 假设回答与文档的表述更接近，即使内容不准确也能检索到相关章节
+ * @param query 原始查询
+ * @param model 对话模型
+ * @param signal 取消信号
+ * @returns 假设回答，失败时返回原始查询
+ */
+export async function generateHypotheticalDocument(
+  query: string,
+  model: BaseChatModel,
+  signal?: AbortSignal
+): Promise<string> {
+  const prompt = `请写一段简短的技术文档片段来回答下面的问题，风格与产品文档一致，100 到 200 字。
+不确定的细节可以合理假设，不要说明自己不确定，只输出文档内容。
+
+问题：${query}
+
+文档片段：`;
+
+  try {
+    const response = await model.invoke(prompt, { signal });
+    const document = String(response.content)
+      .replace(/<think>[\s\S]*?<\/think>/g, "")
+      .trim();
+    return document || query;
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.warn("生成假设回答失败，使用原始查询:", error.message);
+    return query;
+  }
+}
@@ -0,0 +1,192 @@
+// 此文件只能在服务器端使用
+if (typeof window !== "undefined") {
+  throw new Error("reranker.ts can only be used on the server side");
+}
+
+import { createChatModel } from "../models/providers";
+import type { ScoredDocument } from "./vectorStore";
+
+/**
+ * 重排序器：对候选文档重新打分，得分越大越相关
+ */
+export interface Reranker {
+  name: string;
+  /**
+   * 为每个候选文档计算相关度得分
+   * @param signal 取消信号，取消后应尽快抛出错误
+   * @returns 与 documents 顺序一致的得分数组
+   */
+  score(
+    query: string,
+    documents: ScoredDocument[],
+    signal?: AbortSignal
+  ): Promise<number[]>;
+}
+
+/**
+ * 内置重排序器类型
+ * - llm: 使用配置的对话模型逐条打分
+ * - cross-encoder: 在 Node 进程内运行本地 cross-encoder 模型
+ */
+export type RerankerType = "llm" | "cross-encoder";
+
+/**
+ * 重排序器配置
+ */
+export interface RerankerOptions {
+  provider?: string; // llm 重排序使用的对话 provider，默认 ollama
+  model?: string; // llm 为对话模型名，cross-encoder 为 Hugging Face 模型名
+}
+
+// LLM 打分时截取的文档长度，避免提示过长
+const LLM_RERANK_MAX_CHARS = 1500;
+
+/**
+ * 基于对话模型的重排序器
+ * 让模型为每个候选文档输出 0-10 的相关度，换算为 [0, 1] 的得分
+ */
+export class LLMReranker implements Reranker {
+  name = "llm";
+  private options: RerankerOptions;
+
+  constructor(options: RerankerOptions = {}) {
+    this.options = options;
+  }
+
+  async score(
+    query: string,
+    documents: ScoredDocument[],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const model = createChatModel(this.options.provider || "ollama", {
+      model: this.options.model,
+      temperature: 0,
+    });
+
+    const scores: number[] = [];
+    for (const doc of documents) {
+      const prompt = `请评估下面的文档对回答查询有多大帮助，只输出 0 到 10 之间的一个整数，不要输出其他内容。
+
+查询：${query}
+
+文档：
+${doc.pageContent.slice(0, LLM_RERANK_MAX_CHARS)}
+
+相关度（0-10）：`;
+
+      try {
+        const response = await model.invoke(prompt, { signal });
+        const match = String(response.content).match(/\d+(\.\d+)?/);
+        const value = match ? parseFloat(match[0]) : 0;
+        scores.push(Math.min(Math.max(value, 0), 10) / 10);
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        console.warn(`LLM 重排序打分失败 (${doc.id}):`, error.message);
+        scores.push(0);
+      }
+    }
+    return scores;
+  }
+}
+
+/**
+ * 本地 cross-encoder 重排序器（@huggingface/transformers）
+ * 模型首次使用时下载并缓存，默认读取 RERANKER_MODEL 环境变量
+ */
+export class CrossEncoderReranker implements Reranker {
+  name = "cross-encoder";
+  private modelName: string;
+  private loading?: Promise<{ tokenizer: any; model: any }>;
+
+  constructor(options: RerankerOptions = {}) {
+    this.modelName =
+      options.model || process.env.RERANKER_MODEL || "Xenova/bge-reranker-base";
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const { AutoTokenizer, AutoModelForSequenceClassification } =
+          await import("@huggingface/transformers");
+        const [tokenizer, model] = await Promise.all([
+          AutoTokenizer.from_pretrained(this.modelName),
+          AutoModelForSequenceClassification.from_pretrained(this.modelName),
+        ]);
+        return { tokenizer, model };
+      })();
+    }
+    return this.loading;
+  }
+
+  async score(
+    query: string,
+    documents: ScoredDocument[],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    // 本地推理无法中途取消，在加载模型和推理前后检查取消信号
+    signal?.throwIfAborted();
+    const { tokenizer, model } = await this.load();
+    signal?.throwIfAborted();
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents.map((doc) => doc.pageContent),
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    signal?.throwIfAborted();
+    // logits 形状为 [n, 1]，sigmoid 后得到 [0, 1] 的相关度
+    return (logits.sigmoid().tolist() as number[][]).map((row) => row[0]);
+  }
+}
+
+// cross-encoder 模型加载开销大，按模型名缓存实例
+const crossEncoderCache = new Map<string, CrossEncoderReranker>();
+
+/**
+ * 创建内置重排序器
+ * @param type 重排序器类型
+ * @param options 配置选项
+ * @returns 重排序器实例
+ */
+export function createReranker(
+  type: RerankerType,
+  options: RerankerOptions = {}
+): Reranker {
+  if (type === "cross-encoder") {
+    const key = options.model || process.env.RERANKER_MODEL || "";
+    let reranker = crossEncoderCache.get(key);
+    if (!reranker) {
+      reranker = new CrossEncoderReranker(options);
+      crossEncoderCache.set(key, reranker);
+    }
+    return reranker;
+  }
+  return new LLMReranker(options);
+}
+
+/**
+ * 对候选文档重排序并保留前 k 个
+ * @param query 查询文本
+ * @param documents 候选文档
+ * @param reranker 重排序器
+ * @param k 保留的文档数量
+ * @param signal 取消信号
+ * @returns 带 rerankScore 的文档，按得分降序
+ */
+export async function rerankDocuments(
+  query: string,
+  documents: ScoredDocument[],
+  reranker: Reranker,
+  k: number,
+  signal?: AbortSignal
+): Promise<ScoredDocument[]> {
+  const scores = await reranker.score(query, documents, signal);
+  return documents
+    .map((doc, index) => ({ ...doc, rerankScore: scores[index] ?? 0 }))
+    .sort((a, b) => b.rerankScore - a.rerankScore)
+    .slice(0, k);
+}
@@ -1,20 +1,12 @@
-import { searchSimilarDocuments } from "./vectorStore";
-import { EmbeddingModelType } from "./embedding";
+import { retrieve, RetrievalTrace, RetrieverOptions } from "./retriever";
 import { OllamaModel } from "../models/ollamaModel";
 
 /**
  * 检索链配置选项
+ * strategy 选择检索策略（single / multi-query / hyde），便于对比不同策略的检索效果
+ * filter 限定检索范围（如只在某个来源、章节或版本中检索）
  */
-export interface RetrievalChainOptions {
-  collectionName?: string;
-  embeddingType?: EmbeddingModelType;
-  k?: number; // 检索的文档数量
-  chromaHost?: string;
-  chromaPort?: number;
-  embeddingModel?: string;
-  embeddingApiKey?: string;
-  embeddingBaseUrl?: string;
-}
+export interface RetrievalChainOptions extends RetrieverOptions {}
 
 /**
  * 检索结果
@@ -26,6 +18,7 @@ export interface RetrievalResult {
     metadata: Record<string, any>;
   }>;
   answer: string;
+  trace: RetrievalTrace; // 检索调试信息（候选文档及各项得分）
 }
 
 /**
@@ -38,6 +31,13 @@ function buildPrompt(
   query: string,
   retrievedDocs: Array<{ content: string; metadata: Record<string, any> }>
 ): string {
+  if (retrievedDocs.length === 0) {
+    // 没有通过相关度阈值的文档，让模型直接回答并说明知识库中没有匹配
+    return `知识库中没有找到与该问题相关的内容。请直接回答用户的问题，并在回答中说明未在知识库中找到相关资料。
+
+用户问题：${query}`;
+  }
+
   const contextSections = retrievedDocs
     .map((doc, index) => {
       return `[文档 ${index + 1}]\n${doc.content}`;
@@ -64,32 +64,8 @@ export async function executeRetrievalChain(
   query: string,
   options: RetrievalChainOptions = {}
 ): Promise<RetrievalResult> {
-  const {
-    collectionName = process.env.CHROMA_COLLECTION || "rag-documents",
-    embeddingType = (process.env.EMBEDDING_TYPE as EmbeddingModelType) ||
-      "ollama",
-    k = 4,
-    chromaHost = process.env.CHROMA_HOST || "localhost",
-    chromaPort = parseInt(process.env.CHROMA_PORT || "8000"),
-    embeddingModel = process.env.EMBEDDING_MODEL,
-    embeddingApiKey,
-    embeddingBaseUrl,
-  } = options;
-
-  // 第 1 步：将用户问题向量化并在向量库中检索最相关的文本块
-  const retrievedDocs = await searchSimilarDocuments(
-    query,
-    k,
-    collectionName,
-    embeddingType,
-    {
-      host: chromaHost,
-      port: chromaPort,
-      apiKey: embeddingApiKey,
-      model: embeddingModel,
-      baseUrl: embeddingBaseUrl,
-    }
-  );
+  // 第 1 步：将用户问题向量化并在向量库中检索最相关的文本块（可选重排序）
+  const { documents: retrievedDocs, trace } = await retrieve(query, options);
 
   // 转换为检索结果格式
   const retrievedDocuments = retrievedDocs.map((doc) => ({
@@ -121,6 +97,7 @@ export async function executeRetrievalChain(
     query,
     retrievedDocuments,
     answer,
+    trace,
   };
 }
 
@@ -137,38 +114,15 @@ export async function executeRetrievalChainStream(
     content?: string;
     error?: string;
     documents?: Array<{ content: string; metadata: Record<string, any> }>;
+    trace?: RetrievalTrace;
   }) => void,
   options: RetrievalChainOptions = {}
 ): Promise<void> {
-  const {
-    collectionName = process.env.CHROMA_COLLECTION || "rag-documents",
-    embeddingType = (process.env.EMBEDDING_TYPE as EmbeddingModelType) ||
-      "ollama",
-    k = 4,
-    chromaHost = process.env.CHROMA_HOST || "localhost",
-    chromaPort = parseInt(process.env.CHROMA_PORT || "8000"),
-    embeddingModel = process.env.EMBEDDING_MODEL,
-    embeddingApiKey,
-    embeddingBaseUrl,
-  } = options;
-
   try {
     // 第 1 步：将用户问题向量化并在向量库中检索最相关的文本块
     onChunk({ type: "retrieval", content: "正在检索相关文档..." });
 
-    const retrievedDocs = await searchSimilarDocuments(
-      query,
-      k,
-      collectionName,
-      embeddingType,
-      {
-        host: chromaHost,
-        port: chromaPort,
-        apiKey: embeddingApiKey,
-        model: embeddingModel,
-        baseUrl: embeddingBaseUrl,
-      }
-    );
+    const { documents: retrievedDocs, trace } = await retrieve(query, options);
 
     // 转换为检索结果格式
     const retrievedDocuments = retrievedDocs.map((doc) => ({
@@ -180,6 +134,7 @@ export async function executeRetrievalChainStream(
       type: "retrieval",
       content: `检索到 ${retrievedDocuments.length} 个相关文档`,
       documents: retrievedDocuments,
+      trace,
     });
 
     // 第 2 步：将检索到的文本块与问题组合成提示
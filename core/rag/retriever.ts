@@ -0,0 +1,322 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { createChatModel } from "../models/providers";
+import { EmbeddingModelType } from "./embedding";
+import { getEmbeddingCache } from "./embeddingCache";
+import { hybridSearch, reciprocalRankFusion } from "./hybridSearch";
+import {
+  generateHypotheticalDocument,
+  generateQueryVariants,
+} from "./queryRewriter";
+import {
+  createReranker,
+  rerankDocuments,
+  Reranker,
+  RerankerType,
+} from "./reranker";
+import { createSnippet } from "./sources";
+import { isEmptyFilter, RetrievalFilter } from "./stores";
+import { searchSimilarDocuments, ScoredDocument } from "./vectorStore";
+
+/**
+ * 检索方式
+ * - vector: 仅向量检索
+ * - hybrid: 向量检索 + BM25 关键词检索，RRF 融合
+ */
+export type RetrievalMode = "vector" | "hybrid";
+
+/**
+ * 检索策略
+ * - single: 直接用查询检索
+ * - multi-query: 由 LLM 生成多个改写查询，分别检索后去重合并（RRF）
+ * - hyde: 由 LLM 生成假设回答，用假设回答的向量检索（混合检索的关键词部分仍使用原查询）
+ */
+export type RetrievalStrategy = "single" | "multi-query" | "hyde";
+
+/**
+ * 检索配置（RAGModel、检索链、知识库检索工具共用）
+ */
+export interface RetrieverOptions {
+  collectionName?: string;
+  embeddingType?: EmbeddingModelType;
+  k?: number; // 检索的文档数量
+  chromaHost?: string;
+  chromaPort?: number;
+  embeddingModel?: string;
+  embeddingApiKey?: string;
+  embeddingBaseUrl?: string;
+  maxDistance?: number; // 最大向量距离，超过的文档会被丢弃
+  minScore?: number; // 最小相关度得分 (0, 1]，低于的文档会被丢弃
+  retrievalMode?: RetrievalMode; // 默认读取 RAG_RETRIEVAL_MODE，未设置时为 hybrid
+  vectorWeight?: number; // 混合检索中向量结果的权重
+  keywordWeight?: number; // 混合检索中关键词结果的权重
+  rrfK?: number; // RRF 平滑常数
+  minKeywordScore?: number; // 混合检索中仅关键词命中的文档需要达到的 BM25 得分比例（设置阈值时生效）
+  // 重排序：先取较大的候选集，重新打分后保留前 k 个
+  rerank?: RerankerType | Reranker; // 默认读取 RAG_RERANKER，未设置时不重排序
+  rerankCandidates?: number; // 重排序的候选数量，默认 k * 4
+  rerankModel?: string; // 重排序模型（llm 为对话模型名，cross-encoder 为 HF 模型名）
+  debug?: boolean; // 是否在控制台输出检索调试信息
+  strategy?: RetrievalStrategy; // 默认读取 RAG_STRATEGY，未设置时为 single
+  multiQueryCount?: number; // multi-query 生成的改写查询数量，默认 3
+  strategyModel?: BaseChatModel; // 生成改写查询或假设回答的对话模型，默认为 CHAT_PROVIDER 的默认模型
+  filter?: RetrievalFilter; // 只在满足条件的文本块中检索，如 { metadata: { source: "guide.md" } }
+  signal?: AbortSignal; // 取消检索（如客户端断开或停止生成），各阶段之间检查
+}
+
+/**
+ * 是否开启检索调试：输出调试日志，并向客户端发送检索调试信息（retrieval 事件）
+ * @param debug 检索配置中的 debug，未设置时读取 RAG_DEBUG
+ */
+export function isRetrievalDebugEnabled(debug?: boolean): boolean {
+  return debug ?? process.env.RAG_DEBUG === "true";
+}
+
+/**
+ * 单个候选文档的检索调试信息
+ */
+export interface RetrievalCandidateTrace {
+  id: string;
+  snippet: string;
+  distance?: number;
+  score: number;
+  keywordScore?: number;
+  fusionScore?: number;
+  rerankScore?: number;
+  selected: boolean; // 是否进入最终结果
+}
+
+/**
+ * 检索调试信息
+ */
+export interface RetrievalTrace {
+  query: string; // 实际用于检索的查询
+  originalQuery?: string; // 查询被改写时，改写前的用户消息
+  retrievalMode: RetrievalMode;
+  strategy: RetrievalStrategy;
+  expandedQueries?: string[]; // multi-query 的改写查询，或 hyde 的假设回答
+  filter?: RetrievalFilter;
+  reranker?: string;
+  candidates: RetrievalCandidateTrace[];
+  durationMs: number;
+}
+
+/**
+ * 生成候选文档的调试信息
+ */
+function traceCandidate(
+  doc: ScoredDocument,
+  selected: boolean
+): RetrievalCandidateTrace {
+  return {
+    id: doc.id,
+    snippet: createSnippet(doc.pageContent),
+    distance: Number.isFinite(doc.distance) ? doc.distance : undefined,
+    score: doc.score,
+    keywordScore: doc.keywordScore,
+    fusionScore: doc.fusionScore,
+    rerankScore: doc.rerankScore,
+    selected,
+  };
+}
+
+/**
+ * 合并多个查询的检索结果：按 ID 去重，用 RRF 融合各查询中的排名
+ * @param results 各查询的检索结果（按相关度降序）
+ * @param k 返回的文档数量
+ * @param rrfK RRF 平滑常数
+ * @returns 融合排序后的文档，fusionScore 为跨查询的融合得分
+ */
+function mergeResults(
+  results: ScoredDocument[][],
+  k: number,
+  rrfK: number = 60
+): ScoredDocument[] {
+  const fusedScores = reciprocalRankFusion(
+    results.map((documents) => ({
+      ids: documents.map((doc) => doc.id),
+      weight: 1,
+    })),
+    rrfK
+  );
+
+  // 同一文档保留向量得分最高的一次命中
+  const byId = new Map<string, ScoredDocument>();
+  for (const doc of results.flat()) {
+    const existing = byId.get(doc.id);
+    if (!existing || doc.score > existing.score) {
+      byId.set(doc.id, doc);
+    }
+  }
+
+  return Array.from(fusedScores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k)
+    .map(([id, fusionScore]) => ({ ...byId.get(id)!, fusionScore }));
+}
+
+/**
+ * 按配置检索与查询相关的文档，并返回检索调试信息
+ * @param query 查询文本
+ * @param options 检索配置，未指定的项使用环境变量
+ * @returns 检索到的文档和调试信息
+ */
+export async function retrieve(
+  query: string,
+  options: RetrieverOptions = {}
+): Promise<{ documents: ScoredDocument[]; trace: RetrievalTrace }> {
+  const startTime = Date.now();
+  const {
+    collectionName = process.env.CHROMA_COLLECTION || "rag-documents",
+    embeddingType = (process.env.EMBEDDING_TYPE as EmbeddingModelType) ||
+      "ollama",
+    k = 4,
+    chromaHost = process.env.CHROMA_HOST || "localhost",
+    chromaPort = parseInt(process.env.CHROMA_PORT || "8000"),
+    embeddingModel = process.env.EMBEDDING_MODEL,
+    embeddingApiKey,
+    embeddingBaseUrl,
+    maxDistance,
+    minScore,
+    retrievalMode = (process.env.RAG_RETRIEVAL_MODE as RetrievalMode) ||
+      "hybrid",
+    vectorWeight,
+    keywordWeight,
+    rrfK,
+    minKeywordScore,
+    rerank = process.env.RAG_RERANKER as RerankerType | undefined,
+    rerankCandidates = k * 4,
+    rerankModel,
+    debug = isRetrievalDebugEnabled(),
+    strategy = (process.env.RAG_STRATEGY as RetrievalStrategy) || "single",
+    multiQueryCount = 3,
+    strategyModel,
+    filter,
+    signal,
+  } = options;
+
+  const reranker =
+    typeof rerank === "string"
+      ? createReranker(rerank, { model: rerankModel })
+      : rerank;
+  const candidateK = reranker ? Math.max(rerankCandidates, k) : k;
+
+  const searchOptions = {
+    host: chromaHost,
+    port: chromaPort,
+    apiKey: embeddingApiKey,
+    model: embeddingModel,
+    baseUrl: embeddingBaseUrl,
+    maxDistance,
+    minScore,
+    filter: isEmptyFilter(filter) ? undefined : filter,
+  };
+
+  const search = (text: string, vectorQuery?: string) =>
+    retrievalMode === "hybrid"
+      ? hybridSearch(text, candidateK, collectionName, embeddingType, {
+          ...searchOptions,
+          vectorWeight,
+          keywordWeight,
+          rrfK,
+          minKeywordScore,
+          vectorQuery,
+        })
+      : searchSimilarDocuments(
+          vectorQuery ?? text,
+          candidateK,
+          collectionName,
+          embeddingType,
+          searchOptions
+        );
+
+  // 第 1 步：召回候选文档（multi-query / hyde 先由 LLM 扩展查询）
+  let candidates: ScoredDocument[];
+  let expandedQueries: string[] | undefined;
+  if (strategy === "multi-query") {
+    expandedQueries = await generateQueryVariants(
+      query,
+      multiQueryCount,
+      strategyModel || createChatModel(),
+      signal
+    );
+    const results = await Promise.all(
+      [query, ...expandedQueries].map((text) => search(text))
+    );
+    candidates = mergeResults(results, candidateK, rrfK);
+  } else if (strategy === "hyde") {
+    const hypothetical = await generateHypotheticalDocument(
+      query,
+      strategyModel || createChatModel(),
+      signal
+    );
+    expandedQueries = [hypothetical];
+    candidates = await search(query, hypothetical);
+  } else {
+    candidates = await search(query);
+  }
+
+  signal?.throwIfAborted();
+
+  // 第 2 步：重排序（可选）
+  let documents = candidates;
+  let scoredCandidates = candidates;
+  if (reranker && candidates.length > 0) {
+    scoredCandidates = await rerankDocuments(
+      query,
+      candidates,
+      reranker,
+      candidates.length,
+      signal
+    );
+    documents = scoredCandidates.slice(0, k);
+  }
+
+  const selectedIds = new Set(documents.map((doc) => doc.id));
+  const trace: RetrievalTrace = {
+    query,
+    retrievalMode,
+    strategy,
+    expandedQueries,
+    filter: searchOptions.filter,
+    reranker: reranker?.name,
+    candidates: scoredCandidates.map((doc) =>
+      traceCandidate(doc, selectedIds.has(doc.id))
+    ),
+    durationMs: Date.now() - startTime,
+  };
+
+  if (debug) {
+    console.log("检索调试信息:", {
+      query: trace.query,
+      retrievalMode: trace.retrievalMode,
+      strategy: trace.strategy,
+      expandedQueries: trace.expandedQueries,
+      filter: trace.filter,
+      reranker: trace.reranker,
+      durationMs: trace.durationMs,
+      embeddingCache: getEmbeddingCache()?.stats(),
+    });
+    console.table(
+      trace.candidates.map(({ snippet, ...candidate }) => ({
+        ...candidate,
+        snippet: snippet.slice(0, 30),
+      }))
+    );
+  }
+
+  return { documents, trace };
+}
+
+/**
+ * 按配置检索与查询相关的文档
+ * @param query 查询文本
+ * @param options 检索配置，未指定的项使用环境变量
+ * @returns 检索到的文档数组
+ */
+export async function retrieveDocuments(
+  query: string,
+  options: RetrieverOptions = {}
+): Promise<ScoredDocument[]> {
+  const { documents } = await retrieve(query, options);
+  return documents;
+}
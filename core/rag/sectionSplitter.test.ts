@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  sectionsToDocuments,
+  splitSections,
+  StructuredDocument,
+} from "./sectionSplitter";
+
+const document: StructuredDocument = {
+  title: "系统文档",
+  version: "1.0",
+  lastUpdated: "2024-01-01",
+  sections: [
+    {
+      id: "tools",
+      title: "工具集成",
+      content: "工具通过 getTools 注册。",
+      keywords: ["工具", "tool"],
+      components: ["GetCurrentTimeTool", "GetWeatherTool"],
+      codeExample: { language: "ts", code: "getTools()" },
+    },
+    { id: "empty", title: "空章节", content: "  " },
+  ],
+  appendix: { glossary: { RAG: "检索增强生成" } },
+};
+
+describe("sectionsToDocuments", () => {
+  it("每个章节一个文档，扩展字段格式化为正文，关键词以逗号拼接", () => {
+    const [tools] = sectionsToDocuments(document);
+    expect(tools.text).toBe(
+      [
+        "工具通过 getTools 注册。",
+        "components:\n  - GetCurrentTimeTool\n  - GetWeatherTool",
+        "codeExample:\n  ```ts\ngetTools()\n  ```",
+      ].join("\n\n")
+    );
+    expect(tools.metadata).toEqual({
+      id: "tools",
+      title: "工具集成",
+      keywords: "工具, tool",
+      documentTitle: "系统文档",
+      version: "1.0",
+      lastUpdated: "2024-01-01",
+    });
+  });
+
+  it("跳过没有正文的章节，附录作为额外的章节", () => {
+    const documents = sectionsToDocuments(document);
+    expect(documents.map((doc) => doc.metadata.id)).toEqual([
+      "tools",
+      "appendix",
+    ]);
+    expect(documents[1].metadata.title).toBe("附录");
+    expect(documents[1].text).toBe("glossary:\n  RAG: 检索增强生成");
+  });
+
+  it("缺少 sections 时报错", () => {
+    expect(() =>
+      sectionsToDocuments({ title: "x" } as unknown as StructuredDocument)
+    ).toThrow("sections");
+  });
+});
+
+describe("splitSections", () => {
+  it("文本块不跨章节，块文本前加上章节标题", async () => {
+    const long: StructuredDocument = {
+      title: "长文档",
+      sections: [
+        { id: "a", title: "第一章", content: "甲".repeat(30) },
+        { id: "b", title: "第二章", content: "乙".repeat(10) },
+      ],
+    };
+    const chunks = await splitSections(long, 20, 0);
+    expect(chunks.map((chunk) => chunk.metadata.id)).toEqual(["a", "a", "b"]);
+    expect(
+      chunks.every((chunk) =>
+        chunk.text.startsWith(`${chunk.metadata.title}\n`)
+      )
+    ).toBe(true);
+    expect(chunks.map((chunk) => chunk.metadata.chunkIndex)).toEqual([0, 1, 0]);
+    expect(chunks.map((chunk) => chunk.metadata.index)).toEqual([0, 1, 2]);
+  });
+});
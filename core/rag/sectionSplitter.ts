@@ -0,0 +1,154 @@
+import { splitDocuments } from "./textSplitter";
+
+/**
+ * static/documents/index.json 中的章节
+ * 除 id / title / content / keywords 外，章节还可能带有 components、codeExample 等扩展字段
+ */
+export interface DocumentSection {
+  id: string;
+  title: string;
+  content: string;
+  keywords?: string[];
+  [key: string]: any;
+}
+
+/**
+ * 结构化文档（static/documents/index.json 的格式）
+ */
+export interface StructuredDocument {
+  title: string;
+  version?: string;
+  lastUpdated?: string;
+  sections: DocumentSection[];
+  appendix?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * 章节文本块的元数据（Chroma 元数据只支持标量值，keywords 以逗号拼接）
+ */
+export interface SectionChunkMetadata {
+  id: string; // 章节 ID
+  title: string; // 章节标题
+  keywords: string;
+  documentTitle: string;
+  version: string;
+  lastUpdated: string;
+  chunkIndex: number; // 在章节内的序号
+  index: number; // 在整个文档中的序号
+}
+
+/**
+ * 章节文本块
+ */
+export interface SectionChunk {
+  text: string;
+  metadata: SectionChunkMetadata;
+}
+
+// 章节中不作为正文的字段
+const SECTION_META_FIELDS = new Set(["id", "title", "content", "keywords"]);
+
+/**
+ * 将章节的扩展字段格式化为缩进的纯文本
+ */
+function formatValue(value: any, indent: string = ""): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        typeof item === "object"
+          ? `${indent}-\n${formatValue(item, indent + "  ")}`
+          : `${indent}- ${item}`
+      )
+      .join("\n");
+  }
+  if (typeof value === "object") {
+    // 代码示例保留为代码块
+    if (typeof value.code === "string") {
+      return `${indent}\`\`\`${value.language || ""}\n${
+        value.code
+      }\n${indent}\`\`\``;
+    }
+    return Object.entries(value)
+      .map(([key, item]) =>
+        typeof item === "object" && item !== null
+          ? `${indent}${key}:\n${formatValue(item, indent + "  ")}`
+          : `${indent}${key}: ${item}`
+      )
+      .join("\n");
+  }
+  return `${indent}${value}`;
+}
+
+/**
+ * 生成章节正文：content 加上扩展字段（组件、代码示例、清单等）
+ */
+function buildSectionBody(section: DocumentSection): string {
+  const extras = Object.entries(section)
+    .filter(([key]) => !SECTION_META_FIELDS.has(key))
+    .map(([key, value]) => `${key}:\n${formatValue(value, "  ")}`);
+  return [section.content || "", ...extras].filter(Boolean).join("\n\n");
+}
+
+/**
+ * 将结构化文档转换为按章节划分的文档（未分割）
+ * 附录（appendix，如术语表）作为额外的一个章节处理
+ * @param document 解析后的结构化文档
+ * @returns 每个章节一个文档，元数据为章节信息
+ */
+export function sectionsToDocuments(document: StructuredDocument): Array<{
+  text: string;
+  metadata: Omit<SectionChunkMetadata, "chunkIndex" | "index">;
+}> {
+  if (!Array.isArray(document.sections)) {
+    throw new Error("文档缺少 sections 数组");
+  }
+
+  const sections: DocumentSection[] = [...document.sections];
+  if (document.appendix) {
+    sections.push({
+      id: "appendix",
+      title: "附录",
+      content: "",
+      ...document.appendix,
+    });
+  }
+
+  return sections
+    .map((section) => ({
+      text: buildSectionBody(section),
+      metadata: {
+        id: section.id,
+        title: section.title,
+        keywords: (section.keywords || []).join(", "),
+        documentTitle: document.title || "",
+        version: document.version || "",
+        lastUpdated: document.lastUpdated || "",
+      },
+    }))
+    .filter((doc) => doc.text.trim());
+}
+
+/**
+ * 按章节切分结构化文档
+ * 每个章节生成一个或多个文本块，块文本前加上章节标题，避免跨章节混排
+ * @param document 解析后的结构化文档
+ * @param chunkSize 每个文本块的最大字符数（不含标题），默认 500
+ * @param chunkOverlap 文本块之间的重叠字符数，默认 100
+ * @returns 章节文本块数组
+ */
+export async function splitSections(
+  document: StructuredDocument,
+  chunkSize: number = 500,
+  chunkOverlap: number = 100
+): Promise<SectionChunk[]> {
+  const chunks = await splitDocuments(
+    sectionsToDocuments(document),
+    chunkSize,
+    chunkOverlap
+  );
+  return chunks as SectionChunk[];
+}
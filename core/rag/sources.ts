@@ -0,0 +1,50 @@
+import type { ScoredDocument } from "./vectorStore";
+
+/**
+ * 返回给客户端的引用来源，index 对应提示中的 [文档 N]
+ */
+export interface SourceDocument {
+  index: number;
+  id: string;
+  content: string;
+  snippet: string;
+  metadata: Record<string, any>;
+  distance?: number;
+  score?: number;
+  rerankScore?: number;
+}
+
+const SNIPPET_LENGTH = 120;
+
+/**
+ * 生成文档摘要片段（压缩空白并截断）
+ */
+export function createSnippet(content: string): string {
+  const normalized = content.replace(/\s+/g, " ").trim();
+  return normalized.length > SNIPPET_LENGTH
+    ? `${normalized.slice(0, SNIPPET_LENGTH)}...`
+    : normalized;
+}
+
+/**
+ * 将检索结果转换为引用来源，顺序与提示中的文档编号一致
+ * @param documents 检索到的文档
+ * @param offset 编号偏移，本轮对话中已返回的来源数量，第一篇文档编号为 offset + 1
+ * @returns 引用来源数组
+ */
+export function toSourceDocuments(
+  documents: ScoredDocument[],
+  offset: number = 0
+): SourceDocument[] {
+  return documents.map((doc, index) => ({
+    index: offset + index + 1,
+    id: doc.id,
+    content: doc.pageContent,
+    snippet: createSnippet(doc.pageContent),
+    metadata: doc.metadata || {},
+    // 仅关键词命中的文档没有向量距离
+    distance: Number.isFinite(doc.distance) ? doc.distance : undefined,
+    score: doc.score,
+    rerankScore: doc.rerankScore,
+  }));
+}
@@ -0,0 +1,274 @@
+import {
+  ChromaClient,
+  ChromaNotFoundError,
+  Collection,
+  Where,
+  WhereDocument,
+} from "chromadb";
+import { toOperators } from "./filter";
+import {
+  CollectionMetadata,
+  DocumentFilter,
+  MetadataFilter,
+  StoredDocument,
+  VectorRecord,
+  VectorSearchResult,
+  VectorStoreBackend,
+  VectorStoreStats,
+} from "./types";
+
+// 已提示过距离度量不是余弦的集合，每个集合只提示一次
+const warnedSpaces = new Set<string>();
+
+/**
+ * 将元数据过滤条件转换为 Chroma where 语法
+ * Chroma 的每个条件只能包含一个运算符，多个字段或运算符拆分后用 $and 组合
+ */
+export function toChromaWhere(filter?: MetadataFilter): Where | undefined {
+  const clauses: Where[] = [];
+  for (const [key, condition] of Object.entries(filter || {})) {
+    if (typeof condition !== "object") {
+      clauses.push({ [key]: condition });
+      continue;
+    }
+    for (const [operator, value] of Object.entries(toOperators(condition))) {
+      if (value !== undefined) {
+        clauses.push({ [key]: { [operator]: value } } as Where);
+      }
+    }
+  }
+  if (clauses.length === 0) {
+    return undefined;
+  }
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * 将文档内容过滤条件转换为 Chroma whereDocument 语法
+ */
+export function toChromaWhereDocument(
+  filter?: DocumentFilter
+): WhereDocument | undefined {
+  const clauses: WhereDocument[] = [];
+  if (filter?.$contains !== undefined) {
+    clauses.push({ $contains: filter.$contains });
+  }
+  if (filter?.$not_contains !== undefined) {
+    clauses.push({ $not_contains: filter.$not_contains });
+  }
+  if (clauses.length === 0) {
+    return undefined;
+  }
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * Chroma 向量库后端
+ * 向量由调用方计算，集合不绑定嵌入函数；新集合使用余弦距离，与本地向量库一致
+ */
+export class ChromaVectorStore implements VectorStoreBackend {
+  readonly type = "chroma" as const;
+  readonly collectionName: string;
+  private client: ChromaClient;
+
+  constructor(
+    collectionName: string,
+    options: { host?: string; port?: number } = {}
+  ) {
+    this.collectionName = collectionName;
+    this.client = new ChromaClient({
+      host: options.host || process.env.CHROMA_HOST || "localhost",
+      port: options.port || parseInt(process.env.CHROMA_PORT || "8000"),
+    });
+  }
+
+  /**
+   * 获取已存在的集合，不存在时返回 null
+   */
+  private async getCollection(): Promise<Collection | null> {
+    try {
+      return await this.client.getCollection({ name: this.collectionName });
+    } catch (error) {
+      if (error instanceof ChromaNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 获取集合，不存在时创建
+   */
+  private async getOrCreateCollection(): Promise<Collection> {
+    return this.client.getOrCreateCollection({
+      name: this.collectionName,
+      embeddingFunction: null,
+      configuration: { hnsw: { space: "cosine" } },
+    });
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const collection = await this.getOrCreateCollection();
+    await collection.add({
+      ids: records.map((record) => record.id),
+      embeddings: records.map((record) => record.embedding),
+      metadatas: records.map((record) => record.metadata),
+      documents: records.map((record) => record.content),
+    });
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const collection = await this.getOrCreateCollection();
+    await collection.upsert({
+      ids: records.map((record) => record.id),
+      embeddings: records.map((record) => record.embedding),
+      metadatas: records.map((record) => record.metadata),
+      documents: records.map((record) => record.content),
+    });
+  }
+
+  async search(
+    embedding: number[],
+    k: number,
+    options: { filter?: MetadataFilter; documentFilter?: DocumentFilter } = {}
+  ): Promise<VectorSearchResult[]> {
+    const collection = await this.getCollection();
+    if (!collection) {
+      return [];
+    }
+    this.warnIfNotCosine(collection);
+
+    const results = await collection.query({
+      queryEmbeddings: [embedding],
+      nResults: k,
+      where: toChromaWhere(options.filter),
+      whereDocument: toChromaWhereDocument(options.documentFilter),
+      include: ["documents", "metadatas", "distances"],
+    });
+
+    const ids = results.ids?.[0] || [];
+    const documents = results.documents?.[0] || [];
+    const metadatas = results.metadatas?.[0] || [];
+    const distances = results.distances?.[0] || [];
+    return ids.map((id, i) => ({
+      id,
+      content: documents[i] || "",
+      metadata: metadatas[i] || {},
+      distance: distances[i] ?? Number.POSITIVE_INFINITY,
+    }));
+  }
+
+  /**
+   * 旧版本创建的集合使用 Chroma 默认的 L2 距离，与余弦距离的阈值不可比，提示重建集合
+   */
+  private warnIfNotCosine(collection: Collection): void {
+    const space = collection.configuration?.hnsw?.space;
+    if (!space || space === "cosine" || warnedSpaces.has(this.collectionName)) {
+      return;
+    }
+    warnedSpaces.add(this.collectionName);
+    console.warn(
+      `集合 "${this.collectionName}" 使用 ${space} 距离，RAG_MAX_DISTANCE 等阈值按余弦距离设置。` +
+        `运行 pnpm ingest --migrate -c ${this.collectionName} 以余弦距离重建集合`
+    );
+  }
+
+  async delete(options: {
+    ids?: string[];
+    filter?: MetadataFilter;
+  }): Promise<void> {
+    if (!options.ids && !options.filter) {
+      throw new Error("删除文档需要指定 ids 或 filter");
+    }
+    const collection = await this.getCollection();
+    if (!collection || options.ids?.length === 0) {
+      return;
+    }
+    await collection.delete({
+      ids: options.ids,
+      where: toChromaWhere(options.filter),
+    });
+  }
+
+  async list(
+    options: {
+      ids?: string[];
+      filter?: MetadataFilter;
+      includeEmbeddings?: boolean;
+    } = {}
+  ): Promise<StoredDocument[]> {
+    const collection = await this.getCollection();
+    if (!collection) {
+      return [];
+    }
+
+    const result = await collection.get({
+      ids: options.ids,
+      where: toChromaWhere(options.filter),
+      include: options.includeEmbeddings
+        ? ["documents", "metadatas", "embeddings"]
+        : ["documents", "metadatas"],
+    });
+
+    return (result.ids || []).map((id, i) => ({
+      id,
+      content: result.documents?.[i] || "",
+      metadata: (result.metadatas?.[i] as Record<string, any>) || {},
+      embedding: result.embeddings?.[i] || undefined,
+    }));
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const collection = await this.getCollection();
+    if (!collection) {
+      return {
+        backend: this.type,
+        collectionName: this.collectionName,
+        count: 0,
+      };
+    }
+
+    const [count, sample] = await Promise.all([
+      collection.count(),
+      collection.peek({ limit: 1 }),
+    ]);
+    return {
+      backend: this.type,
+      collectionName: this.collectionName,
+      count,
+      dimension: sample.embeddings?.[0]?.length,
+    };
+  }
+
+  async getMetadata(): Promise<CollectionMetadata | null> {
+    const collection = await this.getCollection();
+    if (!collection) {
+      return null;
+    }
+    return (collection.metadata as CollectionMetadata) || {};
+  }
+
+  async setMetadata(metadata: CollectionMetadata): Promise<void> {
+    const collection = await this.getOrCreateCollection();
+    // modify 会整体替换集合元数据，先与已有元数据合并；
+    // hnsw:* 为索引配置，创建后不允许修改，不随元数据提交
+    const current = Object.fromEntries(
+      Object.entries(collection.metadata || {}).filter(
+        ([key]) => !key.startsWith("hnsw:")
+      )
+    );
+    await collection.modify({ metadata: { ...current, ...metadata } });
+  }
+
+  async drop(): Promise<void> {
+    try {
+      await this.client.deleteCollection({ name: this.collectionName });
+    } catch (error) {
+      if (!(error instanceof ChromaNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+}
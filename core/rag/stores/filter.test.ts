@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { toChromaWhere, toChromaWhereDocument } from "./chromaStore";
+import {
+  isEmptyFilter,
+  matchesDocumentFilter,
+  matchesMetadataFilter,
+  retrievalFilterSchema,
+} from "./filter";
+
+describe("matchesMetadataFilter", () => {
+  const metadata = { source: "guide.md", version: 2, draft: false };
+
+  it("直接给值表示等于", () => {
+    expect(matchesMetadataFilter(metadata, { source: "guide.md" })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { source: "deploy.md" })).toBe(
+      false
+    );
+    expect(matchesMetadataFilter(metadata, { draft: false })).toBe(true);
+  });
+
+  it("支持比较运算符，多个字段之间为 AND", () => {
+    expect(
+      matchesMetadataFilter(metadata, { version: { $gte: 2, $lt: 3 } })
+    ).toBe(true);
+    expect(matchesMetadataFilter(metadata, { version: { $gt: 2 } })).toBe(
+      false
+    );
+    expect(
+      matchesMetadataFilter(metadata, {
+        source: { $in: ["guide.md", "faq.md"] },
+        version: { $ne: 1 },
+      })
+    ).toBe(true);
+    expect(
+      matchesMetadataFilter(metadata, { source: { $nin: ["guide.md"] } })
+    ).toBe(false);
+  });
+
+  it("字段不存在时只有 $ne / $nin 成立", () => {
+    expect(matchesMetadataFilter(metadata, { lang: "zh" })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { lang: { $ne: "zh" } })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { lang: { $nin: ["zh"] } })).toBe(
+      true
+    );
+    expect(matchesMetadataFilter(metadata, { lang: { $gt: 0 } })).toBe(false);
+  });
+
+  it("数值运算符不匹配非数值字段", () => {
+    expect(matchesMetadataFilter(metadata, { source: { $gt: 0 } })).toBe(false);
+  });
+
+  it("没有过滤条件时全部匹配", () => {
+    expect(matchesMetadataFilter(metadata)).toBe(true);
+    expect(matchesMetadataFilter(metadata, {})).toBe(true);
+  });
+});
+
+describe("matchesDocumentFilter", () => {
+  it("$contains 与 $not_contains 区分大小写", () => {
+    const content = "Next.js 路由说明";
+    expect(matchesDocumentFilter(content, { $contains: "Next" })).toBe(true);
+    expect(matchesDocumentFilter(content, { $contains: "next" })).toBe(false);
+    expect(
+      matchesDocumentFilter(content, {
+        $contains: "路由",
+        $not_contains: "API",
+      })
+    ).toBe(true);
+    expect(matchesDocumentFilter(content, { $not_contains: "路由" })).toBe(
+      false
+    );
+    expect(matchesDocumentFilter(content)).toBe(true);
+  });
+});
+
+describe("isEmptyFilter", () => {
+  it("没有任何条件时为空", () => {
+    expect(isEmptyFilter()).toBe(true);
+    expect(isEmptyFilter({ metadata: {}, document: {} })).toBe(true);
+    expect(isEmptyFilter({ metadata: { source: "guide.md" } })).toBe(false);
+    expect(isEmptyFilter({ document: { $contains: "路由" } })).toBe(false);
+  });
+});
+
+describe("retrievalFilterSchema", () => {
+  it("接受合法的过滤条件", () => {
+    const filter = {
+      metadata: { source: "guide.md", version: { $gte: 2 } },
+      document: { $contains: "路由" },
+    };
+    expect(retrievalFilterSchema.parse(filter)).toEqual(filter);
+  });
+
+  it("拒绝未知运算符、空运算符和多余字段", () => {
+    expect(
+      retrievalFilterSchema.safeParse({
+        metadata: { version: { $regex: "1" } },
+      }).success
+    ).toBe(false);
+    expect(
+      retrievalFilterSchema.safeParse({ metadata: { version: {} } }).success
+    ).toBe(false);
+    expect(
+      retrievalFilterSchema.safeParse({ metadata: { version: { $in: [] } } })
+        .success
+    ).toBe(false);
+    expect(retrievalFilterSchema.safeParse({ where: {} }).success).toBe(false);
+  });
+});
+
+describe("toChromaWhere", () => {
+  it("没有条件时返回 undefined", () => {
+    expect(toChromaWhere()).toBeUndefined();
+    expect(toChromaWhere({})).toBeUndefined();
+  });
+
+  it("单个条件直接返回", () => {
+    expect(toChromaWhere({ source: "guide.md" })).toEqual({
+      source: "guide.md",
+    });
+    expect(toChromaWhere({ version: { $gte: 2 } })).toEqual({
+      version: { $gte: 2 },
+    });
+  });
+
+  it("多个条件（包括同一字段的多个运算符）拆分后用 $and 组合", () => {
+    expect(
+      toChromaWhere({ source: "guide.md", version: { $gte: 2, $lt: 5 } })
+    ).toEqual({
+      $and: [
+        { source: "guide.md" },
+        { version: { $gte: 2 } },
+        { version: { $lt: 5 } },
+      ],
+    });
+  });
+});
+
+describe("toChromaWhereDocument", () => {
+  it("转换内容过滤条件", () => {
+    expect(toChromaWhereDocument()).toBeUndefined();
+    expect(toChromaWhereDocument({ $contains: "路由" })).toEqual({
+      $contains: "路由",
+    });
+    expect(
+      toChromaWhereDocument({ $contains: "路由", $not_contains: "API" })
+    ).toEqual({ $and: [{ $contains: "路由" }, { $not_contains: "API" }] });
+  });
+});
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+  DocumentFilter,
+  MetadataCondition,
+  MetadataFilter,
+  MetadataOperators,
+  RetrievalFilter,
+} from "./types";
+
+const metadataValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const metadataOperatorsSchema = z
+  .object({
+    $eq: metadataValueSchema,
+    $ne: metadataValueSchema,
+    $gt: z.number(),
+    $gte: z.number(),
+    $lt: z.number(),
+    $lte: z.number(),
+    $in: z.array(metadataValueSchema).min(1),
+    $nin: z.array(metadataValueSchema).min(1),
+  })
+  .partial()
+  .strict()
+  .refine((operators) => Object.keys(operators).length > 0, {
+    message: "至少需要一个比较运算符",
+  });
+
+/**
+ * 检索过滤条件 Schema，用于校验来自请求的过滤条件
+ */
+export const retrievalFilterSchema = z
+  .object({
+    metadata: z.record(
+      z.string().min(1),
+      z.union([metadataValueSchema, metadataOperatorsSchema])
+    ),
+    document: z
+      .object({
+        $contains: z.string().min(1),
+        $not_contains: z.string().min(1),
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * 判断过滤条件是否为空（没有任何条件）
+ */
+export function isEmptyFilter(filter?: RetrievalFilter): boolean {
+  return (
+    Object.keys(filter?.metadata || {}).length === 0 &&
+    Object.keys(filter?.document || {}).length === 0
+  );
+}
+
+/**
+ * 将单个字段的条件统一为运算符形式
+ */
+export function toOperators(condition: MetadataCondition): MetadataOperators {
+  return typeof condition === "object" ? condition : { $eq: condition };
+}
+
+/**
+ * 判断字段值是否满足条件；字段不存在时只有 $ne / $nin 成立
+ */
+function matchesCondition(value: any, condition: MetadataCondition): boolean {
+  const { $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin } = toOperators(condition);
+  return (
+    ($eq === undefined || value === $eq) &&
+    ($ne === undefined || value !== $ne) &&
+    ($gt === undefined || (typeof value === "number" && value > $gt)) &&
+    ($gte === undefined || (typeof value === "number" && value >= $gte)) &&
+    ($lt === undefined || (typeof value === "number" && value < $lt)) &&
+    ($lte === undefined || (typeof value === "number" && value <= $lte)) &&
+    ($in === undefined || $in.includes(value)) &&
+    ($nin === undefined || !$nin.includes(value))
+  );
+}
+
+/**
+ * 判断元数据是否满足过滤条件
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter?: MetadataFilter
+): boolean {
+  return Object.entries(filter || {}).every(([key, condition]) =>
+    matchesCondition(metadata[key], condition)
+  );
+}
+
+/**
+ * 判断文档内容是否满足过滤条件（区分大小写，与 Chroma 一致）
+ */
+export function matchesDocumentFilter(
+  content: string,
+  filter?: DocumentFilter
+): boolean {
+  return (
+    (filter?.$contains === undefined || content.includes(filter.$contains)) &&
+    (filter?.$not_contains === undefined ||
+      !content.includes(filter.$not_contains))
+  );
+}
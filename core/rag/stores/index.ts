@@ -0,0 +1,59 @@
+import { ChromaVectorStore } from "./chromaStore";
+import { LocalVectorStore } from "./localStore";
+import { VectorStoreBackend, VectorStoreType } from "./types";
+
+export * from "./types";
+export {
+  ChromaVectorStore,
+  toChromaWhere,
+  toChromaWhereDocument,
+} from "./chromaStore";
+export {
+  isEmptyFilter,
+  matchesDocumentFilter,
+  matchesMetadataFilter,
+  retrievalFilterSchema,
+} from "./filter";
+export { LocalVectorStore, cosineDistance } from "./localStore";
+
+/**
+ * 向量库后端配置
+ */
+export interface VectorStoreBackendOptions {
+  type?: VectorStoreType; // 默认读取 VECTOR_STORE，未设置时为 chroma
+  host?: string; // chroma
+  port?: number; // chroma
+  path?: string; // local，默认读取 VECTOR_STORE_PATH，未设置时为 .data/vector-store
+}
+
+/**
+ * 获取配置的向量库后端类型
+ */
+export function resolveVectorStoreType(
+  type?: VectorStoreType
+): VectorStoreType {
+  const resolved = type || (process.env.VECTOR_STORE as VectorStoreType);
+  if (resolved && resolved !== "chroma" && resolved !== "local") {
+    throw new Error(`不支持的向量库类型: ${resolved}（可选 chroma、local）`);
+  }
+  return resolved || "chroma";
+}
+
+/**
+ * 创建集合对应的向量库后端
+ * @param collectionName 集合名称
+ * @param options 配置选项
+ * @returns 向量库后端实例
+ */
+export function getVectorStoreBackend(
+  collectionName: string,
+  options: VectorStoreBackendOptions = {}
+): VectorStoreBackend {
+  if (resolveVectorStoreType(options.type) === "local") {
+    return new LocalVectorStore(collectionName, { path: options.path });
+  }
+  return new ChromaVectorStore(collectionName, {
+    host: options.host,
+    port: options.port,
+  });
+}
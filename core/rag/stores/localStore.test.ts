@@ -0,0 +1,167 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { cosineDistance, LocalVectorStore } from "./localStore";
+import { VectorRecord } from "./types";
+
+const records: VectorRecord[] = [
+  {
+    id: "a",
+    content: "Next.js 路由说明",
+    metadata: { source: "guide.md", version: 1 },
+    embedding: [1, 0, 0],
+  },
+  {
+    id: "b",
+    content: "工具调用机制",
+    metadata: { source: "guide.md", version: 2 },
+    embedding: [0.8, 0.2, 0],
+  },
+  {
+    id: "c",
+    content: "部署指南",
+    metadata: { source: "deploy.md", version: 2 },
+    embedding: [0, 0, 1],
+  },
+];
+
+describe("cosineDistance", () => {
+  it("相同方向为 0，正交为 1，相反为 2", () => {
+    expect(cosineDistance([1, 0], [2, 0])).toBeCloseTo(0);
+    expect(cosineDistance([1, 0], [0, 1])).toBeCloseTo(1);
+    expect(cosineDistance([1, 0], [-1, 0])).toBeCloseTo(2);
+  });
+
+  it("零向量的距离为 1", () => {
+    expect(cosineDistance([0, 0], [1, 0])).toBe(1);
+  });
+});
+
+describe("LocalVectorStore", () => {
+  let directory: string;
+  let store: LocalVectorStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "local-store-"));
+    store = new LocalVectorStore("test-collection", { path: directory });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("集合不存在时返回空结果", async () => {
+    expect(await store.list()).toEqual([]);
+    expect(await store.search([1, 0, 0], 4)).toEqual([]);
+    expect(await store.getMetadata()).toBeNull();
+    expect((await store.stats()).count).toBe(0);
+  });
+
+  it("添加记录并写入文件", async () => {
+    await store.add(records);
+
+    const stats = await store.stats();
+    expect(stats).toMatchObject({ backend: "local", count: 3, dimension: 3 });
+
+    const file = JSON.parse(
+      await readFile(join(directory, "test-collection.json"), "utf-8")
+    );
+    expect(file.records.map((record: VectorRecord) => record.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+
+    // 新实例从文件读取
+    const reopened = new LocalVectorStore("test-collection", {
+      path: directory,
+    });
+    expect((await reopened.list()).map((doc) => doc.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("ID 已存在时 add 报错且不写入，upsert 覆盖", async () => {
+    await store.add(records);
+    await expect(
+      store.add([{ ...records[0], content: "重复" }])
+    ).rejects.toThrow("文档 ID 已存在: a");
+    expect((await store.list({ ids: ["a"] }))[0].content).toBe(
+      "Next.js 路由说明"
+    );
+
+    await store.upsert([{ ...records[0], content: "更新后" }]);
+    expect((await store.list({ ids: ["a"] }))[0].content).toBe("更新后");
+    expect((await store.stats()).count).toBe(3);
+  });
+
+  it("按余弦距离升序返回前 k 条", async () => {
+    await store.add(records);
+    const results = await store.search([1, 0, 0], 2);
+    expect(results.map((result) => result.id)).toEqual(["a", "b"]);
+    expect(results[0].distance).toBeCloseTo(0);
+    expect(results[1].distance).toBeGreaterThan(0);
+  });
+
+  it("检索时应用元数据和内容过滤条件", async () => {
+    await store.add(records);
+
+    const bySource = await store.search([1, 0, 0], 4, {
+      filter: { source: "deploy.md" },
+    });
+    expect(bySource.map((result) => result.id)).toEqual(["c"]);
+
+    const byVersion = await store.search([1, 0, 0], 4, {
+      filter: { source: "guide.md", version: { $gte: 2 } },
+    });
+    expect(byVersion.map((result) => result.id)).toEqual(["b"]);
+
+    const byContent = await store.search([1, 0, 0], 4, {
+      documentFilter: { $contains: "工具" },
+    });
+    expect(byContent.map((result) => result.id)).toEqual(["b"]);
+  });
+
+  it("按来源删除记录", async () => {
+    await store.add(records);
+    await store.delete({ filter: { source: "guide.md" } });
+    expect((await store.list()).map((doc) => doc.id)).toEqual(["c"]);
+  });
+
+  it("按 ID 删除记录，未指定条件时报错", async () => {
+    await store.add(records);
+    await store.delete({ ids: ["b"] });
+    expect((await store.list()).map((doc) => doc.id)).toEqual(["a", "c"]);
+    await expect(store.delete({})).rejects.toThrow();
+  });
+
+  it("list 仅在 includeEmbeddings 时返回向量", async () => {
+    await store.add(records);
+    expect((await store.list({ ids: ["a"] }))[0].embedding).toBeUndefined();
+    expect(
+      (await store.list({ ids: ["a"], includeEmbeddings: true }))[0].embedding
+    ).toEqual([1, 0, 0]);
+  });
+
+  it("合并写入集合元数据，drop 删除整个集合", async () => {
+    await store.setMetadata({ embeddingModel: "bge-m3" });
+    await store.setMetadata({ dimension: 3 });
+    expect(await store.getMetadata()).toEqual({
+      embeddingModel: "bge-m3",
+      dimension: 3,
+    });
+
+    await store.add(records);
+    await store.drop();
+    expect(await store.list()).toEqual([]);
+    expect(await store.getMetadata()).toBeNull();
+  });
+
+  it("并发写入依次执行，不丢失记录", async () => {
+    await Promise.all(records.map((record) => store.add([record])));
+    expect((await store.stats()).count).toBe(3);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  mkdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { matchesDocumentFilter, matchesMetadataFilter } from "./filter";
+import {
+  CollectionMetadata,
+  DocumentFilter,
+  MetadataFilter,
+  StoredDocument,
+  VectorRecord,
+  VectorSearchResult,
+  VectorStoreBackend,
+  VectorStoreStats,
+} from "./types";
+
+/**
+ * 集合文件内容
+ */
+interface CollectionFile {
+  collectionName: string;
+  metadata?: CollectionMetadata;
+  records: VectorRecord[];
+}
+
+/**
+ * 已加载到内存的集合，mtimeMs 用于发现其他进程（如入库脚本）写入的变化
+ */
+interface CollectionState {
+  records: Map<string, VectorRecord>;
+  metadata: CollectionMetadata | null; // 文件不存在时为 null
+  mtimeMs: number;
+}
+
+// 同一进程内按文件路径共享集合数据
+const collectionStates = new Map<string, CollectionState>();
+// 按文件路径串行化写入
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * 计算余弦距离（1 - 余弦相似度），范围 [0, 2]
+ */
+export function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 1;
+  }
+  return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * 本地文件向量库后端
+ * 每个集合保存为一个 JSON 文件，全部加载到内存中做精确余弦检索，
+ * 适合离线开发和测试，不适合大规模数据
+ */
+export class LocalVectorStore implements VectorStoreBackend {
+  readonly type = "local" as const;
+  readonly collectionName: string;
+  private filePath: string;
+
+  constructor(collectionName: string, options: { path?: string } = {}) {
+    this.collectionName = collectionName;
+    const directory = resolve(
+      options.path || process.env.VECTOR_STORE_PATH || ".data/vector-store"
+    );
+    this.filePath = join(
+      directory,
+      `${encodeURIComponent(collectionName)}.json`
+    );
+  }
+
+  /**
+   * 加载集合（文件有变化时重新读取），文件不存在时返回空集合
+   */
+  private async load(): Promise<CollectionState> {
+    const cached = collectionStates.get(this.filePath);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+      return cached || { records: new Map(), metadata: null, mtimeMs: 0 };
+    }
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    const data: CollectionFile = JSON.parse(
+      await readFile(this.filePath, "utf-8")
+    );
+    const state: CollectionState = {
+      records: new Map(data.records.map((record) => [record.id, record])),
+      metadata: data.metadata || {},
+      mtimeMs,
+    };
+    collectionStates.set(this.filePath, state);
+    return state;
+  }
+
+  /**
+   * 修改集合并写回文件（先写临时文件再重命名，避免写入中断导致文件损坏）
+   */
+  private async update(
+    mutate: (
+      records: Map<string, VectorRecord>,
+      metadata: CollectionMetadata
+    ) => void
+  ): Promise<void> {
+    const previous = writeQueues.get(this.filePath) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const state = await this.load();
+        const records = new Map(state.records);
+        const metadata = { ...state.metadata };
+        mutate(records, metadata);
+
+        const data: CollectionFile = {
+          collectionName: this.collectionName,
+          metadata,
+          records: Array.from(records.values()),
+        };
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(data));
+        await rename(tempPath, this.filePath);
+
+        collectionStates.set(this.filePath, {
+          records,
+          metadata,
+          mtimeMs: (await stat(this.filePath)).mtimeMs,
+        });
+      });
+    writeQueues.set(this.filePath, next);
+    return next;
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.update((stored) => {
+      for (const record of records) {
+        if (stored.has(record.id)) {
+          throw new Error(`文档 ID 已存在: ${record.id}`);
+        }
+      }
+      for (const record of records) {
+        stored.set(record.id, record);
+      }
+    });
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.update((stored) => {
+      for (const record of records) {
+        stored.set(record.id, record);
+      }
+    });
+  }
+
+  async search(
+    embedding: number[],
+    k: number,
+    options: { filter?: MetadataFilter; documentFilter?: DocumentFilter } = {}
+  ): Promise<VectorSearchResult[]> {
+    const { records } = await this.load();
+    const results: VectorSearchResult[] = [];
+    for (const record of Array.from(records.values())) {
+      if (
+        !matchesMetadataFilter(record.metadata, options.filter) ||
+        !matchesDocumentFilter(record.content, options.documentFilter)
+      ) {
+        continue;
+      }
+      results.push({
+        id: record.id,
+        content: record.content,
+        metadata: record.metadata,
+        distance: cosineDistance(embedding, record.embedding),
+      });
+    }
+    return results.sort((a, b) => a.distance - b.distance).slice(0, k);
+  }
+
+  async delete(options: {
+    ids?: string[];
+    filter?: MetadataFilter;
+  }): Promise<void> {
+    if (!options.ids && !options.filter) {
+      throw new Error("删除文档需要指定 ids 或 filter");
+    }
+    const ids = options.ids ? new Set(options.ids) : null;
+    await this.update((stored) => {
+      for (const record of Array.from(stored.values())) {
+        if (
+          (!ids || ids.has(record.id)) &&
+          matchesMetadataFilter(record.metadata, options.filter)
+        ) {
+          stored.delete(record.id);
+        }
+      }
+    });
+  }
+
+  async list(
+    options: {
+      ids?: string[];
+      filter?: MetadataFilter;
+      includeEmbeddings?: boolean;
+    } = {}
+  ): Promise<StoredDocument[]> {
+    const { records } = await this.load();
+    const ids = options.ids ? new Set(options.ids) : null;
+    return Array.from(records.values())
+      .filter(
+        (record) =>
+          (!ids || ids.has(record.id)) &&
+          matchesMetadataFilter(record.metadata, options.filter)
+      )
+      .map((record) => ({
+        id: record.id,
+        content: record.content,
+        metadata: record.metadata,
+        embedding: options.includeEmbeddings ? record.embedding : undefined,
+      }));
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const { records } = await this.load();
+    const first = records.values().next().value as VectorRecord | undefined;
+    return {
+      backend: this.type,
+      collectionName: this.collectionName,
+      count: records.size,
+      dimension: first?.embedding.length,
+    };
+  }
+
+  async getMetadata(): Promise<CollectionMetadata | null> {
+    const { metadata } = await this.load();
+    return metadata;
+  }
+
+  async setMetadata(metadata: CollectionMetadata): Promise<void> {
+    await this.update((_, stored) => Object.assign(stored, metadata));
+  }
+
+  async drop(): Promise<void> {
+    const previous = writeQueues.get(this.filePath) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        collectionStates.delete(this.filePath);
+        try {
+          await unlink(this.filePath);
+        } catch (error: any) {
+          if (error.code !== "ENOENT") throw error;
+        }
+      });
+    writeQueues.set(this.filePath, next);
+    return next;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * 向量库后端类型
+ * - chroma: Chroma 服务（CHROMA_HOST:CHROMA_PORT）
+ * - local: 进程内向量库，持久化到本地文件，精确余弦检索
+ */
+export type VectorStoreType = "chroma" | "local";
+
+/**
+ * 元数据字段值
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * 单个字段的比较条件，多个运算符之间为 AND
+ */
+export interface MetadataOperators {
+  $eq?: MetadataValue;
+  $ne?: MetadataValue;
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+  $in?: MetadataValue[];
+  $nin?: MetadataValue[];
+}
+
+/**
+ * 单个字段的条件：直接给值表示等于，或使用比较运算符
+ */
+export type MetadataCondition = MetadataValue | MetadataOperators;
+
+/**
+ * 元数据过滤条件（对应 Chroma where）：字段 -> 条件，多个字段之间为 AND
+ * 例如 { source: "guide.md", version: { $gte: 2 } }
+ */
+export type MetadataFilter = Record<string, MetadataCondition>;
+
+/**
+ * 文档内容过滤条件（对应 Chroma whereDocument），多个条件之间为 AND
+ */
+export interface DocumentFilter {
+  $contains?: string; // 内容包含该文本
+  $not_contains?: string; // 内容不包含该文本
+}
+
+/**
+ * 检索过滤条件，metadata 与 document 之间为 AND
+ */
+export interface RetrievalFilter {
+  metadata?: MetadataFilter;
+  document?: DocumentFilter;
+}
+
+/**
+ * 集合级元数据（如构建集合时使用的嵌入模型）
+ */
+export type CollectionMetadata = Record<string, string | number | boolean>;
+
+/**
+ * 向量库中的文本块
+ */
+export interface StoredDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding?: number[]; // 仅在 includeEmbeddings 时返回
+}
+
+/**
+ * 写入向量库的记录
+ */
+export interface VectorRecord {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+/**
+ * 向量检索结果
+ */
+export interface VectorSearchResult extends StoredDocument {
+  distance: number; // 距离越小越相似（余弦距离，两种后端一致）
+}
+
+/**
+ * 集合统计信息
+ */
+export interface VectorStoreStats {
+  backend: VectorStoreType;
+  collectionName: string;
+  count: number;
+  dimension?: number; // 向量维度，集合为空时未知
+}
+
+/**
+ * 向量库后端接口，每个实例对应一个集合
+ * 集合不存在时，读取操作返回空结果，写入操作自动创建集合
+ */
+export interface VectorStoreBackend {
+  readonly type: VectorStoreType;
+  readonly collectionName: string;
+
+  /**
+   * 添加记录，ID 已存在时报错
+   */
+  add(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * 添加或覆盖记录
+   */
+  upsert(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * 按向量检索最相似的 k 条记录
+   * @returns 按距离升序排列的结果
+   */
+  search(
+    embedding: number[],
+    k: number,
+    options?: { filter?: MetadataFilter; documentFilter?: DocumentFilter }
+  ): Promise<VectorSearchResult[]>;
+
+  /**
+   * 删除记录，ids 和 filter 至少指定一个
+   */
+  delete(options: { ids?: string[]; filter?: MetadataFilter }): Promise<void>;
+
+  /**
+   * 列出记录（按写入顺序）
+   */
+  list(options?: {
+    ids?: string[];
+    filter?: MetadataFilter;
+    includeEmbeddings?: boolean;
+  }): Promise<StoredDocument[]>;
+
+  /**
+   * 集合统计信息
+   */
+  stats(): Promise<VectorStoreStats>;
+
+  /**
+   * 读取集合级元数据，集合不存在时返回 null
+   */
+  getMetadata(): Promise<CollectionMetadata | null>;
+
+  /**
+   * 合并写入集合级元数据，集合不存在时创建
+   */
+  setMetadata(metadata: CollectionMetadata): Promise<void>;
+
+  /**
+   * 删除整个集合（包括集合级元数据），集合不存在时忽略
+   */
+  drop(): Promise<void>;
+}
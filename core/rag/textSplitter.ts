@@ -47,3 +47,38 @@ export async function createDocuments(
   const splitter = createTextSplitter(chunkSize, chunkOverlap);
   return await splitter.createDocuments(texts);
 }
+
+/**
+ * 带元数据的文本块
+ */
+export interface TextChunk {
+  text: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * 分割带元数据的文档
+ * 每个文档单独分割，避免文本块跨文档；metadata.title 存在时加到每个文本块前面
+ * @param documents 文档数组
+ * @param chunkSize 每个文本块的最大字符数（不含标题），默认 1000
+ * @param chunkOverlap 文本块之间的重叠字符数，默认 200
+ * @returns 文本块数组，元数据增加 chunkIndex（文档内序号）和 index（全局序号）
+ */
+export async function splitDocuments(
+  documents: Array<{ text: string; metadata: Record<string, any> }>,
+  chunkSize: number = 1000,
+  chunkOverlap: number = 200
+): Promise<TextChunk[]> {
+  const splitter = createTextSplitter(chunkSize, chunkOverlap);
+  const chunks: TextChunk[] = [];
+  for (const doc of documents) {
+    const pieces = await splitter.splitText(doc.text);
+    pieces.forEach((piece, chunkIndex) => {
+      chunks.push({
+        text: doc.metadata.title ? `${doc.metadata.title}\n${piece}` : piece,
+        metadata: { ...doc.metadata, chunkIndex, index: chunks.length },
+      });
+    });
+  }
+  return chunks;
+}
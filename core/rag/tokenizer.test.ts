@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { tokenize } from "./tokenizer";
+
+describe("tokenize", () => {
+  it("英文转小写并去掉停用词", () => {
+    expect(tokenize("The Agent and the Tools")).toEqual(["agent", "tools"]);
+  });
+
+  it("复合标识符保留整体并拆出各部分", () => {
+    expect(tokenize("Next.js text-embedding-3")).toEqual([
+      "next.js",
+      "next",
+      "js",
+      "text-embedding-3",
+      "text",
+      "embedding",
+      "3",
+    ]);
+  });
+
+  it("连续汉字切分为二元组，单个汉字保留单字", () => {
+    expect(tokenize("工具集成")).toEqual(["工具", "具集", "集成"]);
+    expect(tokenize("是")).toEqual(["是"]);
+  });
+
+  it("中英文混合时分别切分，全角字符先归一化", () => {
+    expect(tokenize("使用ＲＡＧ检索")).toEqual(["rag", "使用", "检索"]);
+  });
+
+  it("没有可检索内容时返回空数组", () => {
+    expect(tokenize("，。！ ")).toEqual([]);
+  });
+});
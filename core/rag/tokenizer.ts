@@ -0,0 +1,74 @@
+/**
+ * 中英文混合分词器（用于关键词检索）
+ * - 英文/数字：按单词切分并转小写，保留 "next.js" 这类带点号的标识符，同时拆出各部分
+ * - 中文：对连续的汉字序列生成二元组（bigram），单字序列保留单字
+ */
+
+// 连续汉字（含中日韩统一表意文字扩展 A）
+const CJK_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff]+/g;
+// 英文单词、数字以及 next.js / text-embedding-3 这类复合标识符
+const WORD_PATTERN = /[a-z0-9]+(?:[._\-][a-z0-9]+)*/g;
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "with",
+]);
+
+/**
+ * 将汉字序列切分为二元组
+ */
+function tokenizeCJK(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) {
+    return chars;
+  }
+  const tokens: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    tokens.push(chars[i] + chars[i + 1]);
+  }
+  return tokens;
+}
+
+/**
+ * 将文本切分为检索词
+ * @param text 要分词的文本
+ * @returns 检索词数组（可能包含重复项，用于统计词频）
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.normalize("NFKC").toLowerCase();
+  const tokens: string[] = [];
+
+  for (const match of Array.from(normalized.matchAll(WORD_PATTERN))) {
+    const word = match[0];
+    if (!STOP_WORDS.has(word)) {
+      tokens.push(word);
+    }
+    // 复合标识符同时索引各个部分，如 "next.js" -> "next"、"js"
+    const parts = word.split(/[._\-]/);
+    if (parts.length > 1) {
+      tokens.push(...parts.filter((part) => part && !STOP_WORDS.has(part)));
+    }
+  }
+
+  for (const match of Array.from(normalized.matchAll(CJK_PATTERN))) {
+    tokens.push(...tokenizeCJK(match[0]));
+  }
+
+  return tokens;
+}
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, Mock, vi } from "vitest";
+import { getVectorStoreBackend, VectorStoreBackend } from "./stores";
+import {
+  assertEmbeddingCompatible,
+  contentHash,
+  createDocumentId,
+  createDocumentIds,
+  distanceToScore,
+  EmbeddingMismatchError,
+  invalidateEmbeddingInfo,
+  passesThreshold,
+  setCollectionEmbeddingInfo,
+} from "./vectorStore";
+
+// 这些测试不调用嵌入模型，避免加载 Ollama 客户端
+vi.mock("@langchain/ollama", () => ({ OllamaEmbeddings: class {} }));
+vi.mock("./stores", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./stores")>()),
+  getVectorStoreBackend: vi.fn(),
+}));
+
+describe("contentHash", () => {
+  it("返回内容的 sha256", () => {
+    expect(contentHash("")).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+    expect(contentHash("a")).not.toBe(contentHash("b"));
+  });
+});
+
+describe("createDocumentId", () => {
+  it("同一来源的相同内容生成相同 ID", () => {
+    const id = createDocumentId("guide.md", "工具集成机制");
+    expect(id).toBe(createDocumentId("guide.md", "工具集成机制"));
+    expect(id).toMatch(/^[0-9a-f]{12}-[0-9a-f]{16}$/);
+  });
+
+  it("来源或内容不同时 ID 不同", () => {
+    const id = createDocumentId("guide.md", "工具集成机制");
+    expect(createDocumentId("deploy.md", "工具集成机制")).not.toBe(id);
+    expect(createDocumentId("guide.md", "部署指南")).not.toBe(id);
+  });
+});
+
+describe("createDocumentIds", () => {
+  it("同一来源内的重复内容追加序号", () => {
+    const ids = createDocumentIds(
+      ["重复段落", "重复段落", "其他内容", "重复段落"],
+      [
+        { source: "guide.md" },
+        { source: "guide.md" },
+        { source: "guide.md" },
+        { source: "guide.md" },
+      ]
+    );
+    const base = createDocumentId("guide.md", "重复段落");
+    expect(ids).toEqual([
+      base,
+      `${base}-1`,
+      createDocumentId("guide.md", "其他内容"),
+      `${base}-2`,
+    ]);
+  });
+
+  it("不同来源的相同内容互不影响", () => {
+    const ids = createDocumentIds(
+      ["相同内容", "相同内容"],
+      [{ source: "a.md" }, { source: "b.md" }]
+    );
+    expect(ids).toEqual([
+      createDocumentId("a.md", "相同内容"),
+      createDocumentId("b.md", "相同内容"),
+    ]);
+  });
+});
+
+describe("passesThreshold", () => {
+  it("按最大距离和最小得分过滤", () => {
+    const doc = { distance: 0.5, score: distanceToScore(0.5) };
+    expect(passesThreshold(doc)).toBe(true);
+    expect(passesThreshold(doc, { maxDistance: 0.6 })).toBe(true);
+    expect(passesThreshold(doc, { maxDistance: 0.4 })).toBe(false);
+    expect(passesThreshold(doc, { minScore: 0.7 })).toBe(false);
+  });
+
+  it("仅关键词命中的文档（距离为 Infinity）不通过阈值", () => {
+    const doc = { distance: Number.POSITIVE_INFINITY, score: 0 };
+    expect(passesThreshold(doc, { maxDistance: 1 })).toBe(false);
+    expect(passesThreshold(doc, { minScore: 0.1 })).toBe(false);
+  });
+});
+
+describe("assertEmbeddingCompatible", () => {
+  let metadata: Record<string, any>;
+  let backend: { getMetadata: Mock; setMetadata: Mock };
+
+  beforeEach(() => {
+    invalidateEmbeddingInfo();
+    metadata = { embeddingProvider: "ollama", embeddingModel: "bge-m3" };
+    backend = {
+      getMetadata: vi.fn(async () => metadata),
+      setMetadata: vi.fn(async (update: Record<string, any>) => {
+        metadata = { ...metadata, ...update };
+      }),
+    };
+    vi.mocked(getVectorStoreBackend).mockReturnValue(
+      backend as unknown as VectorStoreBackend
+    );
+  });
+
+  it("缓存集合的嵌入模型，不在每次检索时读取元数据", async () => {
+    const actual = { provider: "ollama" as const, model: "bge-m3" };
+    await assertEmbeddingCompatible("docs", actual);
+    await assertEmbeddingCompatible("docs", actual);
+    expect(backend.getMetadata).toHaveBeenCalledTimes(1);
+
+    await expect(
+      assertEmbeddingCompatible("docs", { provider: "openai" })
+    ).rejects.toThrow(EmbeddingMismatchError);
+  });
+
+  it("记录新的嵌入模型后清除缓存", async () => {
+    await assertEmbeddingCompatible("docs", { model: "bge-m3" });
+    await setCollectionEmbeddingInfo("docs", {
+      provider: "openai",
+      model: "text-embedding-3-small",
+      dimension: 1536,
+    });
+
+    await expect(
+      assertEmbeddingCompatible("docs", { model: "bge-m3" })
+    ).rejects.toThrow(EmbeddingMismatchError);
+    expect(backend.getMetadata).toHaveBeenCalledTimes(2);
+  });
+});
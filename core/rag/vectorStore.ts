@@ -5,11 +5,72 @@ if (typeof window !== "undefined") {
 
 import { Chroma } from "@langchain/community/vectorstores/chroma";
 import { Document } from "@langchain/core/documents";
-import { createEmbeddings, EmbeddingModelType } from "./embedding";
-import { ChromaClient } from "chromadb";
+import {
+  createEmbeddings,
+  embedDocuments,
+  embedQuery,
+  EmbeddingModelType,
+  resolveEmbeddingModel,
+} from "./embedding";
+import {
+  getVectorStoreBackend,
+  MetadataFilter,
+  RetrievalFilter,
+  VectorStoreBackend,
+  VectorStoreStats,
+} from "./stores";
+import { createHash } from "node:crypto";
 
 /**
- * 创建 Chroma 向量存储实例
+ * 检索到的文档，附带 ID、与查询向量的距离和相关度得分
+ */
+export interface ScoredDocument extends Document {
+  id: string;
+  distance: number; // 距离越小越相似
+  score: number; // 相关度得分 (0, 1]，由距离换算，越大越相关
+  keywordScore?: number; // BM25 关键词得分（混合检索）
+  fusionScore?: number; // RRF 融合得分（混合检索）
+  rerankScore?: number; // 重排序得分
+}
+
+/**
+ * 相关度阈值，未通过阈值的文档不会返回
+ */
+export interface RelevanceThreshold {
+  maxDistance?: number; // 最大距离
+  minScore?: number; // 最小相关度得分
+}
+
+/**
+ * 将距离换算为相关度得分
+ * @param distance 向量距离
+ * @returns (0, 1] 之间的得分，距离为 0 时得分为 1
+ */
+export function distanceToScore(distance: number): number {
+  return 1 / (1 + Math.max(distance, 0));
+}
+
+/**
+ * 判断文档是否通过相关度阈值
+ */
+export function passesThreshold(
+  doc: Pick<ScoredDocument, "distance" | "score">,
+  threshold: RelevanceThreshold = {}
+): boolean {
+  if (
+    threshold.maxDistance !== undefined &&
+    doc.distance > threshold.maxDistance
+  ) {
+    return false;
+  }
+  if (threshold.minScore !== undefined && doc.score < threshold.minScore) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 创建 LangChain Chroma 向量存储实例（仅支持 Chroma，不受 VECTOR_STORE 影响）
  * @param collectionName 集合名称
  * @param embeddingType 嵌入模型类型
  * @param options 配置选项
@@ -55,12 +116,249 @@ export async function createVectorStore(
 }
 
 /**
- * 将文档添加到向量存储
+ * 构建集合时使用的嵌入模型，记录在集合级元数据中
+ */
+export interface CollectionEmbeddingInfo {
+  provider: EmbeddingModelType;
+  model: string;
+  dimension: number;
+}
+
+/**
+ * 格式化嵌入模型信息，缺失的字段不输出
+ */
+function describeEmbedding(info: Partial<CollectionEmbeddingInfo>): string {
+  const name = [info.provider, info.model].filter(Boolean).join(":");
+  const dimension = info.dimension ? `${info.dimension} 维` : "";
+  return [name, dimension].filter(Boolean).join("，") || "未知模型";
+}
+
+/**
+ * 查询或写入使用的嵌入模型与集合构建时使用的嵌入模型不一致
+ */
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    readonly collectionName: string,
+    readonly expected: Partial<CollectionEmbeddingInfo>, // 集合记录的嵌入模型
+    readonly actual: Partial<CollectionEmbeddingInfo> // 当前使用的嵌入模型
+  ) {
+    super(
+      `集合 "${collectionName}" 由 ${describeEmbedding(
+        expected
+      )} 构建，当前使用 ${describeEmbedding(actual)}。` +
+        `请使用与集合一致的 EMBEDDING_TYPE / EMBEDDING_MODEL，` +
+        `或运行 pnpm ingest --migrate -c ${collectionName} 用当前模型重新向量化集合`
+    );
+    this.name = "EmbeddingMismatchError";
+  }
+}
+
+/**
+ * 计算文本内容的哈希（用于判断文本块是否变化）
+ * @param text 文本内容
+ * @returns sha256 十六进制字符串
+ */
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * 由来源和内容哈希生成稳定的文档 ID，同一来源的相同内容重复入库时 ID 不变
+ * @param source 来源（如文件相对路径）
+ * @param text 文本内容
+ * @returns 文档 ID
+ */
+export function createDocumentId(source: string, text: string): string {
+  const sourceHash = createHash("sha1").update(source).digest("hex");
+  return `${sourceHash.slice(0, 12)}-${contentHash(text).slice(0, 16)}`;
+}
+
+/**
+ * 为一批文本生成文档 ID，同一来源内的重复内容追加序号，避免 ID 冲突
+ * @param texts 文本数组
+ * @param metadatas 元数据数组，来源取 metadata.source
+ * @returns 文档 ID 数组
+ */
+export function createDocumentIds(
+  texts: string[],
+  metadatas?: Record<string, any>[]
+): string[] {
+  const seen = new Map<string, number>();
+  return texts.map((text, index) => {
+    const id = createDocumentId(String(metadatas?.[index]?.source ?? ""), text);
+    const count = seen.get(id) || 0;
+    seen.set(id, count + 1);
+    return count === 0 ? id : `${id}-${count}`;
+  });
+}
+
+/**
+ * 获取集合对应的向量库后端（由 VECTOR_STORE 选择 chroma 或 local）
+ */
+function getBackend(
+  collectionName: string,
+  options?: { host?: string; port?: number }
+): VectorStoreBackend {
+  return getVectorStoreBackend(collectionName, {
+    host: options?.host,
+    port: options?.port,
+  });
+}
+
+/**
+ * 读取集合构建时使用的嵌入模型
+ * 未记录嵌入模型的旧集合只返回向量维度；集合不存在或为空时返回 null
+ * @param collectionName 集合名称
+ * @param options 配置选项
+ */
+export async function getCollectionEmbeddingInfo(
+  collectionName: string = "rag-documents",
+  options?: { host?: string; port?: number }
+): Promise<Partial<CollectionEmbeddingInfo> | null> {
+  const backend = getBackend(collectionName, options);
+  const metadata = await backend.getMetadata();
+  if (!metadata) {
+    return null;
+  }
+  if (metadata.embeddingProvider) {
+    return {
+      provider: metadata.embeddingProvider as EmbeddingModelType,
+      model: metadata.embeddingModel as string | undefined,
+      dimension: metadata.embeddingDimension as number | undefined,
+    };
+  }
+  const { dimension } = await backend.stats();
+  return dimension ? { dimension } : null;
+}
+
+// 集合嵌入模型缓存有效期（毫秒），其他进程（如入库 CLI）修改集合后最迟在该时间后生效
+const EMBEDDING_INFO_TTL = 60 * 1000;
+
+// 检索时校验嵌入模型用的缓存，避免每次检索都读取集合元数据
+const embeddingInfoCache = new Map<
+  string,
+  { info: Promise<Partial<CollectionEmbeddingInfo> | null>; createdAt: number }
+>();
+
+/**
+ * 读取集合的嵌入模型（带缓存），读取失败时不缓存
+ */
+function getCachedEmbeddingInfo(
+  collectionName: string,
+  options?: { host?: string; port?: number }
+): Promise<Partial<CollectionEmbeddingInfo> | null> {
+  const cacheKey = `${options?.host}:${options?.port}/${collectionName}`;
+  const cached = embeddingInfoCache.get(cacheKey);
+  if (cached && Date.now() - cached.createdAt < EMBEDDING_INFO_TTL) {
+    return cached.info;
+  }
+
+  const info = getCollectionEmbeddingInfo(collectionName, options);
+  const entry = { info, createdAt: Date.now() };
+  embeddingInfoCache.set(cacheKey, entry);
+  info.catch(() => {
+    if (embeddingInfoCache.get(cacheKey) === entry) {
+      embeddingInfoCache.delete(cacheKey);
+    }
+  });
+  return info;
+}
+
+/**
+ * 清除集合嵌入模型缓存（写入、迁移或删除集合后调用）
+ * @param collectionName 集合名称，不传则清除全部
+ */
+export function invalidateEmbeddingInfo(collectionName?: string): void {
+  if (!collectionName) {
+    embeddingInfoCache.clear();
+    return;
+  }
+  for (const key of Array.from(embeddingInfoCache.keys())) {
+    if (key.endsWith(`/${collectionName}`)) {
+      embeddingInfoCache.delete(key);
+    }
+  }
+}
+
+/**
+ * 在集合级元数据中记录嵌入模型
+ * @param collectionName 集合名称
+ * @param info 嵌入模型信息
+ * @param options 配置选项
+ */
+export async function setCollectionEmbeddingInfo(
+  collectionName: string,
+  info: CollectionEmbeddingInfo,
+  options?: { host?: string; port?: number }
+): Promise<void> {
+  await getBackend(collectionName, options).setMetadata({
+    embeddingProvider: info.provider,
+    embeddingModel: info.model,
+    embeddingDimension: info.dimension,
+  });
+  invalidateEmbeddingInfo(collectionName);
+}
+
+/**
+ * 检查嵌入模型是否与集合一致（只比较双方都有的字段），不一致时抛出 EmbeddingMismatchError
+ * 集合的嵌入模型按集合缓存，见 invalidateEmbeddingInfo
+ * @param collectionName 集合名称
+ * @param actual 当前使用的嵌入模型
+ * @param options 配置选项
+ */
+export async function assertEmbeddingCompatible(
+  collectionName: string,
+  actual: Partial<CollectionEmbeddingInfo>,
+  options?: { host?: string; port?: number }
+): Promise<void> {
+  const expected = await getCachedEmbeddingInfo(collectionName, options);
+  if (!expected) {
+    return;
+  }
+  const mismatch = (["provider", "model", "dimension"] as const).some(
+    (key) =>
+      expected[key] !== undefined &&
+      actual[key] !== undefined &&
+      expected[key] !== actual[key]
+  );
+  if (mismatch) {
+    throw new EmbeddingMismatchError(collectionName, expected, actual);
+  }
+}
+
+/**
+ * 删除并重建集合，写入给定的文本块和向量，并记录嵌入模型（用于更换嵌入模型后迁移）
+ * 删除和写入之间失败会导致集合数据丢失，调用方应先完成全部向量化
+ * @param collectionName 集合名称
+ * @param records 文本块及其向量
+ * @param info 新的嵌入模型信息
+ * @param options 配置选项
+ */
+export async function rebuildCollection(
+  collectionName: string,
+  records: Array<{
+    id: string;
+    content: string;
+    metadata: Record<string, any>;
+    embedding: number[];
+  }>,
+  info: CollectionEmbeddingInfo,
+  options?: { host?: string; port?: number }
+): Promise<void> {
+  const backend = getBackend(collectionName, options);
+  await backend.drop();
+  invalidateEmbeddingInfo(collectionName);
+  await backend.upsert(records);
+  await setCollectionEmbeddingInfo(collectionName, info, options);
+}
+
+/**
+ * 将文档添加到向量存储（upsert，ID 已存在时覆盖）
  * @param texts 文本数组
  * @param metadatas 元数据数组（可选）
  * @param collectionName 集合名称
  * @param embeddingType 嵌入模型类型
- * @param options 配置选项
+ * @param options 配置选项，ids 不传时由来源和内容哈希生成
  * @returns 文档 ID 数组
  */
 export async function addDocumentsToVectorStore(
@@ -74,25 +372,31 @@ export async function addDocumentsToVectorStore(
     apiKey?: string;
     model?: string;
     baseUrl?: string;
+    ids?: string[];
+    embeddings?: number[][]; // 已计算好的向量，传入时不再调用嵌入模型
   }
 ): Promise<string[]> {
-  const vectorStore = await createVectorStore(
-    collectionName,
-    embeddingType,
-    options
-  );
-
-  // 创建文档对象
-  const documents: Document[] = texts.map((text, index) => ({
-    pageContent: text,
-    metadata: metadatas?.[index] || { index, timestamp: Date.now() },
-  }));
+  const embeddings =
+    options?.embeddings ||
+    (await embedDocuments(texts, embeddingType, {
+      apiKey: options?.apiKey,
+      model: options?.model,
+      baseUrl: options?.baseUrl,
+    }));
 
-  // 生成文档 ID
-  const ids = texts.map((_, index) => `doc-${Date.now()}-${index}`);
+  // 生成文档 ID：重复入库同一内容时 ID 相同，写入即覆盖，不会产生重复副本
+  const ids = options?.ids || createDocumentIds(texts, metadatas);
 
-  // 添加文档到向量存储
-  await vectorStore.addDocuments(documents, { ids });
+  await getBackend(collectionName, options).upsert(
+    texts.map((text, index) => ({
+      id: ids[index],
+      content: text,
+      metadata: metadatas?.[index] || { index, timestamp: Date.now() },
+      embedding: embeddings[index],
+    }))
+  );
+  // 旧集合的向量维度由已有向量推断，写入后重新读取
+  invalidateEmbeddingInfo(collectionName);
 
   return ids;
 }
@@ -103,8 +407,8 @@ export async function addDocumentsToVectorStore(
  * @param k 返回的文档数量
  * @param collectionName 集合名称
  * @param embeddingType 嵌入模型类型
- * @param options 配置选项
- * @returns 检索到的文档数组
+ * @param options 配置选项，maxDistance / minScore 用于过滤不相关的文档，filter 为元数据和内容过滤条件
+ * @returns 通过阈值的文档数组（按距离升序）
  */
 export async function searchSimilarDocuments(
   query: string,
@@ -117,52 +421,59 @@ export async function searchSimilarDocuments(
     apiKey?: string;
     model?: string;
     baseUrl?: string;
-  }
-): Promise<Document[]> {
+    filter?: RetrievalFilter;
+  } & RelevanceThreshold
+): Promise<ScoredDocument[]> {
   try {
     // 先获取嵌入向量
-    const { embedQuery } = await import("./embedding");
     const queryEmbedding = await embedQuery(query, embeddingType, {
       apiKey: options?.apiKey,
       model: options?.model,
       baseUrl: options?.baseUrl,
     });
 
-    // 使用 ChromaClient 直接查询
-    const host = options?.host || process.env.CHROMA_HOST || "localhost";
-    const port = options?.port || parseInt(process.env.CHROMA_PORT || "8000");
-    const client = new ChromaClient({
-      host,
-      port,
-    });
-
-    const collection = await client.getCollection({
-      name: collectionName,
-    });
+    // 拒绝与集合嵌入模型不一致的查询，否则检索结果没有意义
+    await assertEmbeddingCompatible(
+      collectionName,
+      {
+        provider: embeddingType,
+        model: resolveEmbeddingModel(embeddingType, options?.model),
+        dimension: queryEmbedding.length,
+      },
+      options
+    );
 
-    // 使用 query 方法进行相似度搜索
-    const results = await collection.query({
-      queryEmbeddings: [queryEmbedding],
-      nResults: k,
-      include: ["documents", "metadatas", "distances"],
-    });
+    // 在向量库中检索
+    const results = await getBackend(collectionName, options).search(
+      queryEmbedding,
+      k,
+      {
+        filter: options?.filter?.metadata,
+        documentFilter: options?.filter?.document,
+      }
+    );
 
     // 转换为 Document 格式
-    const documents: Document[] = [];
-    if (results.ids && results.ids[0]) {
-      const ids = results.ids[0];
-      const docs = results.documents?.[0] || [];
-      const metadatas = results.metadatas?.[0] || [];
-
-      for (let i = 0; i < ids.length; i++) {
-        documents.push({
-          pageContent: docs[i] || "",
-          metadata: metadatas[i] || {},
-        });
-      }
+    const documents: ScoredDocument[] = results.map((result) => ({
+      id: result.id,
+      pageContent: result.content,
+      metadata: result.metadata,
+      distance: result.distance,
+      score: distanceToScore(result.distance),
+    }));
+
+    // 过滤未通过相关度阈值的文档
+    const relevantDocuments = documents.filter((doc) =>
+      passesThreshold(doc, options)
+    );
+    if (relevantDocuments.length < documents.length) {
+      console.log(
+        `相关度过滤: ${documents.length} -> ${relevantDocuments.length}`,
+        { maxDistance: options?.maxDistance, minScore: options?.minScore }
+      );
     }
 
-    return documents;
+    return relevantDocuments;
   } catch (error: any) {
     console.error("检索相似文档失败:", error);
     console.error("错误详情:", {
@@ -180,7 +491,7 @@ export async function searchSimilarDocuments(
  * 删除向量存储中的文档
  * @param ids 要删除的文档 ID 数组
  * @param collectionName 集合名称
- * @param embeddingType 嵌入模型类型
+ * @param embeddingType 嵌入模型类型（删除不需要向量化，保留参数以兼容旧调用）
  * @param options 配置选项
  */
 export async function deleteDocumentsFromVectorStore(
@@ -195,17 +506,12 @@ export async function deleteDocumentsFromVectorStore(
     baseUrl?: string;
   }
 ): Promise<void> {
-  const vectorStore = await createVectorStore(
-    collectionName,
-    embeddingType,
-    options
-  );
-
-  await vectorStore.delete({ ids });
+  await getBackend(collectionName, options).delete({ ids });
+  invalidateEmbeddingInfo(collectionName);
 }
 
 /**
- * 查看指定集合的完整数据
+ * 查看指定集合的完整数据，集合不存在时返回空结果
  * @param collectionName 集合名称
  * @param options 配置选项
  * @returns 包含所有文档信息的对象
@@ -215,6 +521,8 @@ export async function getAllDocumentsFromCollection(
   options?: {
     host?: string;
     port?: number;
+    includeEmbeddings?: boolean; // 是否返回向量，默认 true
+    where?: MetadataFilter; // 元数据过滤条件
   }
 ): Promise<{
   ids: string[];
@@ -223,30 +531,151 @@ export async function getAllDocumentsFromCollection(
   embeddings?: number[][];
   count: number;
 }> {
-  const host = options?.host || process.env.CHROMA_HOST || "localhost";
-  const port = options?.port || parseInt(process.env.CHROMA_PORT || "8000");
-
-  // 创建 Chroma 客户端
-  const client = new ChromaClient({
-    host,
-    port,
+  const includeEmbeddings = options?.includeEmbeddings !== false;
+  const records = await getBackend(collectionName, options).list({
+    filter: options?.where,
+    includeEmbeddings,
   });
 
-  // 获取集合
-  const collection = await client.getCollection({
-    name: collectionName,
-  });
+  return {
+    ids: records.map((record) => record.id),
+    documents: records.map((record) => record.content),
+    metadatas: records.map((record) => record.metadata),
+    embeddings: includeEmbeddings
+      ? records.map((record) => record.embedding || [])
+      : undefined,
+    count: records.length,
+  };
+}
 
-  // 获取所有数据
-  const result = await collection.get({
-    include: ["documents", "metadatas", "embeddings"],
+/**
+ * 获取集合统计信息（后端类型、文档数量、向量维度）
+ * @param collectionName 集合名称
+ * @param options 配置选项
+ */
+export async function getCollectionStats(
+  collectionName: string = "rag-documents",
+  options?: {
+    host?: string;
+    port?: number;
+  }
+): Promise<VectorStoreStats> {
+  return getBackend(collectionName, options).stats();
+}
+
+/**
+ * 获取某个来源已入库的文本块，集合不存在时返回空结果
+ * @param source 来源（metadata.source）
+ * @param collectionName 集合名称
+ * @param options 配置选项
+ * @returns 文本块 ID、内容和对应的元数据
+ */
+export async function getDocumentsBySource(
+  source: string,
+  collectionName: string = "rag-documents",
+  options?: {
+    host?: string;
+    port?: number;
+  }
+): Promise<{
+  ids: string[];
+  documents: string[];
+  metadatas: Record<string, any>[];
+}> {
+  const { ids, documents, metadatas } = await getAllDocumentsFromCollection(
+    collectionName,
+    { ...options, includeEmbeddings: false, where: { source } }
+  );
+  return { ids, documents, metadatas };
+}
+
+/**
+ * 已入库的来源（一个文件或一次上传）
+ */
+export interface IndexedSource {
+  source: string;
+  chunks: number; // 文本块数量
+  format?: string;
+  title?: string;
+}
+
+/**
+ * 列出集合中已入库的来源及其文本块数量
+ * 没有 source 元数据的文本块（旧版入库脚本写入）计入 untracked
+ * @param collectionName 集合名称
+ * @param options 配置选项
+ * @returns 来源列表（按来源名称排序）和未记录来源的文本块数量
+ */
+export async function listSources(
+  collectionName: string = "rag-documents",
+  options?: {
+    host?: string;
+    port?: number;
+  }
+): Promise<{ sources: IndexedSource[]; untracked: number }> {
+  const { metadatas } = await getAllDocumentsFromCollection(collectionName, {
+    ...options,
+    includeEmbeddings: false,
   });
 
+  const sources = new Map<string, IndexedSource>();
+  let untracked = 0;
+  for (const metadata of metadatas) {
+    const source = metadata?.source;
+    if (typeof source !== "string") {
+      untracked++;
+      continue;
+    }
+    const entry = sources.get(source);
+    if (entry) {
+      entry.chunks++;
+    } else {
+      sources.set(source, {
+        source,
+        chunks: 1,
+        format: metadata.format,
+        // 结构化文档的 title 是章节标题，优先使用文档标题
+        title: metadata.documentTitle || metadata.title,
+      });
+    }
+  }
+
   return {
-    ids: result.ids || [],
-    documents: (result.documents as string[]) || [],
-    metadatas: (result.metadatas as Record<string, any>[]) || [],
-    embeddings: result.embeddings || undefined,
-    count: result.ids?.length || 0,
+    sources: Array.from(sources.values()).sort((a, b) =>
+      a.source.localeCompare(b.source)
+    ),
+    untracked,
   };
 }
+
+/**
+ * 删除某个来源的所有文本块
+ * @param source 来源（metadata.source）
+ * @param collectionName 集合名称
+ * @param embeddingType 嵌入模型类型
+ * @param options 配置选项
+ * @returns 删除的文本块数量
+ */
+export async function deleteDocumentsBySource(
+  source: string,
+  collectionName: string = "rag-documents",
+  embeddingType: EmbeddingModelType = "openai",
+  options?: {
+    host?: string;
+    port?: number;
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+  }
+): Promise<number> {
+  const { ids } = await getDocumentsBySource(source, collectionName, options);
+  if (ids.length > 0) {
+    await deleteDocumentsFromVectorStore(
+      ids,
+      collectionName,
+      embeddingType,
+      options
+    );
+  }
+  return ids.length;
+}
@@ -0,0 +1,106 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import {
+  isRetrievalDebugEnabled,
+  retrieve,
+  RetrievalTrace,
+  RetrieverOptions,
+} from "../rag/retriever";
+import { toSourceDocuments, SourceDocument } from "../rag/sources";
+import { EmbeddingMismatchError } from "../rag/vectorStore";
+import { fitDocuments } from "../models/contextManager";
+
+/**
+ * 知识库检索工具配置，与 RAGModel 的检索配置一致
+ */
+export interface KnowledgeBaseToolOptions extends RetrieverOptions {
+  maxTokens?: number; // 返回内容的 token 上限，超出时按排名丢弃靠后的文档
+}
+
+// 工具参数 Schema
+const searchKnowledgeBaseSchema = z.object({
+  query: z
+    .string()
+    .describe("检索用的查询语句，应是独立完整的问题或关键词，不依赖上下文"),
+  k: z.number().int().min(1).max(10).optional().describe("返回的文档数量"),
+});
+
+/**
+ * 注册该工具时追加到系统提示词的使用说明
+ */
+export const SEARCH_KNOWLEDGE_BASE_INSTRUCTIONS =
+  "You can also use `search_knowledge_base` to search the project knowledge base (technical documentation). Use it only when the question is about the documented system; do not search for greetings or small talk.";
+
+/**
+ * 工具结果附带的 artifact，不会发送给模型，用于向客户端返回引用来源
+ */
+export interface KnowledgeBaseArtifact {
+  sources: SourceDocument[];
+  trace?: RetrievalTrace; // 检索调试信息（候选文档及重排序得分），仅在开启检索调试时附带
+}
+
+/**
+ * 创建知识库检索工具
+ * 工具返回 [内容, artifact]，内容发送给模型，artifact 中的 sources 由 Agent 转发给客户端
+ * @param options 检索配置，未指定的项使用环境变量
+ * @returns LangChain 工具
+ */
+export function createSearchKnowledgeBaseTool(
+  options: KnowledgeBaseToolOptions = {}
+) {
+  return tool(
+    async ({ query, k }, config): Promise<[string, KnowledgeBaseArtifact]> => {
+      try {
+        // 请求取消时 Agent 通过 config.signal 通知工具停止检索
+        const { documents, trace: fullTrace } = await retrieve(query, {
+          ...options,
+          k: k || options.k,
+          signal: config?.signal,
+        });
+        // Agent 会把 trace 转发给客户端，未开启调试时不附带
+        const trace = isRetrievalDebugEnabled(options.debug)
+          ? fullTrace
+          : undefined;
+
+        // 按排名保留不超过 token 上限的文档
+        const filteredDocuments = documents.filter(
+          (doc) => doc && doc.pageContent
+        );
+        const validDocuments = options.maxTokens
+          ? fitDocuments(filteredDocuments, options.maxTokens)
+          : filteredDocuments;
+        if (validDocuments.length === 0) {
+          return ["知识库中没有找到与该查询相关的内容", { sources: [], trace }];
+        }
+
+        // 同一轮对话中多次检索时编号接续，Agent 通过 configurable.sourceOffset 传入已返回的来源数量
+        const offset = Number(config?.configurable?.sourceOffset) || 0;
+        const content = validDocuments
+          .map(
+            (doc, index) => `[文档 ${offset + index + 1}]\n${doc.pageContent}`
+          )
+          .join("\n\n");
+        return [
+          content,
+          { sources: toSourceDocuments(validDocuments, offset), trace },
+        ];
+      } catch (error: unknown) {
+        config?.signal?.throwIfAborted();
+        // 嵌入模型与集合不一致时不交给模型处理，与 always 模式一样直接报错
+        if (error instanceof EmbeddingMismatchError) {
+          throw error;
+        }
+        console.error("知识库检索失败:", error);
+        const message = error instanceof Error ? error.message : String(error);
+        return [`知识库检索失败: ${message}`, { sources: [] }];
+      }
+    },
+    {
+      name: "search_knowledge_base",
+      description:
+        "在项目知识库（技术文档）中检索与查询相关的内容。仅当问题涉及知识库中的文档内容时调用，闲聊或时间、天气等问题不需要调用",
+      schema: searchKnowledgeBaseSchema,
+      responseFormat: "content_and_artifact",
+    }
+  );
+}
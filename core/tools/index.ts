@@ -1,13 +1,56 @@
+import type { StructuredToolInterface } from "@langchain/core/tools";
 import {
   getCurrentTimeTool,
   getCurrentTimestampTool,
 } from "./GetCurrentTimeTool";
 
 import { getWeatherTool } from "./GetWeatherTool";
+import {
+  createSearchKnowledgeBaseTool,
+  KnowledgeBaseToolOptions,
+  SEARCH_KNOWLEDGE_BASE_INSTRUCTIONS,
+} from "./SearchKnowledgeBaseTool";
+
+export type { KnowledgeBaseToolOptions };
+
+// 按需注册的工具的系统提示词说明，常驻工具的说明写在 static/SYSTEM_PROMPT.md 中
+const TOOL_INSTRUCTIONS: Record<string, string> = {
+  search_knowledge_base: SEARCH_KNOWLEDGE_BASE_INSTRUCTIONS,
+};
+
+/**
+ * 获取工具的配置选项
+ */
+export interface GetToolsOptions {
+  // 知识库检索工具配置，仅在设置时注册该工具（RAG 工具模式），未设置或为 false 时不注册
+  knowledgeBase?: KnowledgeBaseToolOptions | false;
+}
 
 /**
  * 获取所有可用工具
  */
-export function getTools() {
-  return [getCurrentTimeTool, getCurrentTimestampTool, getWeatherTool];
+export function getTools(
+  options: GetToolsOptions = {}
+): StructuredToolInterface[] {
+  const tools: StructuredToolInterface[] = [
+    getCurrentTimeTool,
+    getCurrentTimestampTool,
+    getWeatherTool,
+  ];
+
+  if (options.knowledgeBase) {
+    tools.push(createSearchKnowledgeBaseTool(options.knowledgeBase));
+  }
+
+  return tools;
+}
+
+/**
+ * 获取已注册工具的系统提示词说明，未注册的工具不出现在提示词中
+ */
+export function getToolInstructions(tools: StructuredToolInterface[]): string {
+  return tools
+    .map((tool) => TOOL_INSTRUCTIONS[tool.name])
+    .filter(Boolean)
+    .join("\n\n");
 }